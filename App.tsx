@@ -1,76 +1,226 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { CATEGORIES as INITIAL_CATEGORIES } from './constants';
-import { Category, GameType, GameState } from './types';
+import { Category, GameState, GameType, HomeLang, Item, SpeechLang } from './types';
 import { GameEngine } from './components/Games';
-import { generateSpeech, expandCategoryItems, generateItemImage } from './services/geminiService';
-import { playTTSSound, playLocalSpeech } from './services/audioPlayer';
+import { ReviewDeck } from './components/ReviewDeck';
+import { ProfilePicker } from './components/ProfilePicker';
+import { ParentDashboard } from './components/ParentDashboard';
+import { GAME_REGISTRY, getGameModule } from './components/games/registry';
+import { generateItemImage, getAIProvider } from './services/ai';
+import { getBrowserApiKey } from './services/geminiService';
+import { expandCategorySafely } from './services/vocabularyFilter';
+import { AIErrorKind, toAIError } from './services/aiProvider';
+import { speakText, speakBoth, prefetchPronunciations, PrefetchProgress } from './services/speech';
 import { imageStorage } from './services/storage';
+import { reviewScheduler } from './services/scheduler';
+import { ChildProfile, profileKey, profileStore } from './services/profiles';
+import { learningLog } from './services/learningLog';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { SayItPanel } from './components/SayItPanel';
+import { LetterTracer } from './components/LetterTracer';
+import { PhonicsPanel } from './components/PhonicsPanel';
+import { PersianAlphabetRoom } from './components/PersianAlphabetRoom';
+import { ImageJobsIndicator } from './components/ImageJobsIndicator';
+import { imageJobs } from './services/imageJobs';
+import { useImageJobs } from './hooks/useImageJobs';
+import { getRecognizer, PronunciationGrade } from './services/pronunciation';
+import { LetterMastery, letterMastery } from './services/tracing';
+import { LETTER_CATEGORY_PREFIX, letterCategory, LetterWord } from './services/phonics';
+import { isPreviousScreen, parseHash, pushHash, replaceHash, resolveRoute, Route, routeToHash, sameScreen, sessionProfile, View } from './services/router';
+import { DEFAULT_HOME_LANG, LANGUAGES, translationOf } from './services/languages';
+import { translateMissing, withTranslations } from './services/translations';
+
+// پیام مناسب کودک برای هر نوع خطای هوش مصنوعی؛ خطای کلید جداگانه مدیریت می‌شود
+const AI_ERROR_MESSAGES: Record<Exclude<AIErrorKind, 'auth'>, string> = {
+  offline: "Magic is unavailable offline. Connect to the internet and try again!",
+  quota: "The magic needs a little rest. Try again in a minute!",
+  safety: "Oops! The magic can't make that one. Let's try another word!",
+  network: "We couldn't reach the magic. Check the internet and try again!",
+  timeout: "The magic is taking too long. Let's try again!",
+  unknown: "Something went wrong with the magic. Please try again!",
+};
 
 const App: React.FC = () => {
-  const [categories, setCategories] = useState<Category[]>(() => {
-    const saved = localStorage.getItem('kids_joy_v11_data');
-    return saved ? JSON.parse(saved) : INITIAL_CATEGORIES;
-  });
+  const [profile, setProfile] = useState<ChildProfile | null>(null);
+  const [categories, setCategories] = useState<Category[]>(INITIAL_CATEGORIES);
 
   const [state, setState] = useState<GameState>({
-    view: 'main',
-    selectedCategory: categories[0],
+    view: 'profiles',
+    selectedCategory: INITIAL_CATEGORIES[0],
     selectedGame: null,
     score: 0,
   });
 
   const [learningIndex, setLearningIndex] = useState(0);
-  const [showPersian, setShowPersian] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [homeLang, setHomeLang] = useState<HomeLang>(DEFAULT_HOME_LANG);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isExpanding, setIsExpanding] = useState(false);
   const [isGeneratingImg, setIsGeneratingImg] = useState(false);
   const [itemImage, setItemImage] = useState<string | null>(null);
   const [showAllCats, setShowAllCats] = useState(false);
   const [hasMagicKey, setHasMagicKey] = useState(true);
+  const [dueItems, setDueItems] = useState<Item[]>([]);
+  const [downloadProgress, setDownloadProgress] = useState<PrefetchProgress | null>(null);
+  const [sayBoth, setSayBoth] = useState(false);
+  const [sayItMode, setSayItMode] = useState(false);
+  const [phonicsLetter, setPhonicsLetter] = useState<string | null>(null);
+  const [tracingLetter, setTracingLetter] = useState<string | null>(null);
+  const [lettersTraced, setLettersTraced] = useState<LetterMastery>({});
+  const isOnline = useOnlineStatus();
+  const { jobs: imageQueue } = useImageJobs();
+  // لینکی که برنامه با آن باز شده؛ بعد از انتخاب پروفایل اجرا می‌شود
+  const [linkedRoute] = useState(() => parseHash(window.location.hash));
+  const pendingRoute = useRef<Route | null>(linkedRoute);
+  // دکمه‌ی برگشت داخل برنامه ورودی تازه به تاریخچه اضافه نمی‌کند
+  const replaceNextHash = useRef(false);
 
+  useEffect(() => imageJobs.start(), []);
+
+  // بعد از رفرش، همان کودک و همان صفحه دوباره باز می‌شود
   useEffect(() => {
-    localStorage.setItem('kids_joy_v11_data', JSON.stringify(categories));
+    const id = sessionProfile.get();
+    const saved = id ? profileStore.list().find(p => p.id === id) : undefined;
+    if (saved) selectProfile(saved);
+  }, []);
+
+  useEffect(() => {
+    if (profile) profileStore.saveCategories(categories, INITIAL_CATEGORIES);
+  }, [categories, profile]);
+
+  // ویرایشگر و بسته‌ها دسته‌ها را عوض می‌کنند؛ دسته‌ی انتخاب شده باید نسخه‌ی تازه باشد
+  useEffect(() => {
+    setState(s => {
+      if (s.selectedCategory?.id.startsWith(LETTER_CATEGORY_PREFIX)) return s;
+      const fresh = categories.find(c => c.id === s.selectedCategory?.id) || categories[0];
+      return fresh === s.selectedCategory ? s : { ...s, selectedCategory: fresh };
+    });
   }, [categories]);
 
-  // بررسی وضعیت کلید هنگام شروع
   useEffect(() => {
-    const checkKey = async () => {
-      if (window.aistudio) {
-        const has = await window.aistudio.hasSelectedApiKey();
-        setHasMagicKey(has || !!process.env.API_KEY);
-      } else {
-        setHasMagicKey(!!process.env.API_KEY);
+    if (profile) profileStore.saveScore(state.score);
+  }, [state.score, profile]);
+
+  const selectProfile = (next: ChildProfile) => {
+    profileStore.activate(next.id);
+    const loaded = profileStore.loadCategories(INITIAL_CATEGORIES);
+    setCategories(loaded);
+    setProfile(next);
+    setLearningIndex(0);
+    setShowTranslation(false);
+    setHomeLang(profileStore.loadHomeLang());
+    setSayBoth(localStorage.getItem(profileKey('say_both')) === '1');
+    setLettersTraced(letterMastery.get());
+    sessionProfile.set(next.id);
+    const route = resolveRoute(pendingRoute.current ?? { view: 'main' }, loaded);
+    pendingRoute.current = null;
+    setLearningIndex(route.index);
+    setState({ view: route.view, selectedCategory: route.selectedCategory ?? loaded[0], selectedGame: route.selectedGame, score: profileStore.loadScore() });
+  };
+
+  // صفحه‌ی فعلی در آدرس نوشته می‌شود تا دکمه‌ی برگشت و لینک‌ها کار کنند
+  useEffect(() => {
+    if (!profile) return;
+    const route: Route = { view: state.view, categoryId: state.selectedCategory?.id, game: state.selectedGame ?? undefined, index: learningIndex };
+    const hash = routeToHash(route);
+    const replace = replaceNextHash.current;
+    replaceNextHash.current = false;
+    if (hash === window.location.hash) return;
+    const current = parseHash(window.location.hash);
+    // ورق زدن کارت‌ها تاریخچه را پر نمی‌کند
+    if (!current || replace || sameScreen(current, route)) replaceHash(hash);
+    else pushHash(hash);
+  }, [profile, state.view, state.selectedCategory?.id, state.selectedGame, learningIndex]);
+
+  useEffect(() => {
+    const handlePop = () => {
+      if (!profile) {
+        pendingRoute.current = parseHash(window.location.hash);
+        return;
       }
+      const route = resolveRoute(parseHash(window.location.hash) ?? { view: 'main' }, categories);
+      setPhonicsLetter(null);
+      setTracingLetter(null);
+      setShowTranslation(false);
+      setLearningIndex(route.index);
+      setState(s => ({ ...s, view: route.view, selectedCategory: route.selectedCategory ?? s.selectedCategory, selectedGame: route.selectedGame ?? s.selectedGame }));
     };
-    checkKey();
-  }, []);
+    window.addEventListener('popstate', handlePop);
+    return () => window.removeEventListener('popstate', handlePop);
+  }, [profile, categories]);
 
-  const handleApiError = async (error: any) => {
-    console.error("API Error:", error);
-    const errStr = String(error);
-    if (errStr.includes("401") || errStr.includes("403") || errStr.includes("key") || errStr.includes("entity")) {
-      if (window.aistudio) {
-        await window.aistudio.openSelectKey();
-        setHasMagicKey(true);
-      }
+  /** In-app back and home: steps back through history when that is where it leads, otherwise replaces the current entry. */
+  const goBack = (view: View) => {
+    const hash = routeToHash({ view, categoryId: state.selectedCategory?.id, game: state.selectedGame ?? undefined, index: learningIndex });
+    if (isPreviousScreen(hash)) {
+      // صفحه را شنونده‌ی popstate عوض می‌کند
+      window.history.back();
+      return;
     }
+    replaceNextHash.current = true;
+    setState({ ...state, view });
   };
 
-  const setupMagic = async () => {
+  const toggleSayBoth = () => {
+    const next = !sayBoth;
+    localStorage.setItem(profileKey('say_both'), next ? '1' : '0');
+    setSayBoth(next);
+  };
+
+  const changeHomeLang = (lang: HomeLang) => {
+    profileStore.saveHomeLang(lang);
+    setHomeLang(lang);
+  };
+
+  const addScore = (points: number) => setState(s => ({ ...s, score: s.score + points }));
+
+  const checkKey = async () => {
+    // فقط Gemini مستقیم کلید در مرورگر لازم دارد؛ پروکسی کلید را روی سرور نگه می‌دارد
+    if (getAIProvider().id !== 'gemini') return setHasMagicKey(true);
+    const has = window.aistudio ? await window.aistudio.hasSelectedApiKey() : false;
+    setHasMagicKey(has || !!getBrowserApiKey());
+  };
+
+  // وضعیت کلید هر بار که صفحه‌ی اصلی باز می‌شود دوباره بررسی می‌شود تا پیام «جادو در دسترس نیست» پاک شود
+  useEffect(() => {
+    if (state.view === 'main') checkKey();
+  }, [state.view]);
+
+  const handleApiError = async (e: unknown) => {
+    const error = toAIError(e);
+    console.error("API Error:", error.kind, error);
+    if (error.kind !== 'auth') {
+      alert(AI_ERROR_MESSAGES[error.kind]);
+      return;
+    }
     if (window.aistudio) {
       await window.aistudio.openSelectKey();
       setHasMagicKey(true);
     } else {
-      alert("Please set your API_KEY in Cloudflare settings!");
+      setHasMagicKey(false);
     }
   };
 
+  // فقط در AI Studio کلید از داخل برنامه انتخاب می‌شود؛ راه‌اندازی سرور در README آمده
+  const setupMagic = async () => {
+    if (!window.aistudio) return;
+    await window.aistudio.openSelectKey();
+    setHasMagicKey(true);
+  };
+
+  useEffect(() => {
+    if (state.view === 'main') reviewScheduler.getDueItems(categories).then(setDueItems);
+  }, [state.view, categories]);
+
   useEffect(() => {
     const loadImage = async () => {
       if (state.view === 'learning_detail' && state.selectedCategory) {
         const item = state.selectedCategory.items[learningIndex];
         if (item) {
-          const cached = await imageStorage.get(`img_v11_${item.id}`);
+          learningLog.record('viewed', item.id, { categoryId: state.selectedCategory.id });
+          const cached = await imageStorage.get(item.id);
           setItemImage(cached);
         }
       }
@@ -78,22 +228,88 @@ const App: React.FC = () => {
     loadImage();
   }, [learningIndex, state.view, state.selectedCategory]);
 
-  const handleSpeech = async (text: string) => {
+  // وقتی صف تصویرسازی کارت فعلی را تمام کرد، تصویر تازه نشان داده می‌شود
+  const currentItemId = state.selectedCategory?.items[learningIndex]?.id;
+  const currentJobDone = imageQueue.some(job => job.itemId === currentItemId && job.status === 'done');
+  useEffect(() => {
+    if (currentJobDone && currentItemId) imageStorage.get(currentItemId).then(setItemImage);
+  }, [currentJobDone, currentItemId]);
+
+  const runSpeech = async (speak: () => Promise<void>) => {
     if (isSpeaking) return;
     setIsSpeaking(true);
     try {
-      let played = false;
-      if (process.env.API_KEY) {
-        try {
-          const audio = await generateSpeech(text);
-          if (audio) { await playTTSSound(audio, text); played = true; }
-        } catch (e) {}
-      }
-      if (!played) await playLocalSpeech(text);
+      await speak();
     } catch (e) {}
     finally { setIsSpeaking(false); }
   };
 
+  const handleSpeech = (text: string, lang: SpeechLang = 'en') => runSpeech(() => speakText(text, lang));
+
+  const openLetterWord = ({ item, category }: LetterWord) => {
+    setPhonicsLetter(null);
+    setLearningIndex(Math.max(0, category.items.findIndex(it => it.id === item.id)));
+    setShowTranslation(false);
+    setState({ ...state, view: 'learning_detail', selectedCategory: category });
+  };
+
+  const playLetterGame = (letter: string) => {
+    setPhonicsLetter(null);
+    setState({ ...state, view: 'game_active', selectedGame: GameType.BEGINNING_SOUND, selectedCategory: letterCategory(letter, categories) });
+  };
+
+  const handleDownloadAudio = async () => {
+    if (downloadProgress || !state.selectedCategory) return;
+    try {
+      const result = await prefetchPronunciations(state.selectedCategory.items, setDownloadProgress, ['en', homeLang]);
+      if (result.failed > 0) alert(`${result.failed} words could not be downloaded. Try again when online.`);
+    } catch (e) {
+      await handleApiError(e);
+    } finally {
+      setDownloadProgress(null);
+    }
+  };
+
+  const speakCurrentItem = () => {
+    const item = state.selectedCategory?.items[learningIndex];
+    if (!item) return;
+    learningLog.record('spoken', item.id, { categoryId: state.selectedCategory!.id });
+    if (sayBoth) runSpeech(() => speakBoth(item, homeLang));
+    else if (showTranslation && translationOf(item, homeLang)) handleSpeech(translationOf(item, homeLang), homeLang);
+    else handleSpeech(item.name);
+  };
+
+  const handleSayItResult = (grade: PronunciationGrade, item: Item) => {
+    learningLog.record('answered', item.id, { categoryId: state.selectedCategory?.id, gameType: GameType.SAY_IT, correct: grade.passed });
+    reviewScheduler.record(item.id, grade.passed);
+  };
+
+  // کلمه‌هایی که هنوز به زبان خانه ترجمه نشده‌اند، برای کل دسته یک‌جا ترجمه می‌شوند
+  const translateCategory = async (category: Category): Promise<Map<string, string>> => {
+    if (isTranslating || (getAIProvider().requiresNetwork && !isOnline)) return new Map();
+    setIsTranslating(true);
+    try {
+      const translated = await translateMissing(category.items, homeLang);
+      setCategories(prev => withTranslations(prev, translated, homeLang));
+      return translated;
+    } catch (e) {
+      console.warn("Translating failed", e);
+      return new Map();
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  // با برگرداندن کارت، نام به زبان خانه خوانده می‌شود
+  const flipCard = async () => {
+    const next = !showTranslation;
+    setShowTranslation(next);
+    const item = state.selectedCategory?.items[learningIndex];
+    if (!next || !item) return;
+    const translation = translationOf(item, homeLang) || (await translateCategory(state.selectedCategory!)).get(item.id);
+    if (translation) handleSpeech(translation, homeLang);
+  };
+
   const handleImageGen = async () => {
     const item = state.selectedCategory?.items[learningIndex];
     if (isGeneratingImg || !item) return;
@@ -102,7 +318,7 @@ const App: React.FC = () => {
     try {
       const url = await generateItemImage(item.name, state.selectedCategory!.name);
       if (url) {
-        await imageStorage.set(`img_v11_${item.id}`, url);
+        await imageStorage.set(item.id, url);
         setItemImage(url);
       }
     } catch (e) { 
@@ -113,18 +329,15 @@ const App: React.FC = () => {
   };
 
   const handleExpand = async () => {
-    if (isExpanding || !state.selectedCategory) return;
+    if (isExpanding || !state.selectedCategory || !profile) return;
     setIsExpanding(true);
     try {
-      const newItems = await expandCategoryItems(state.selectedCategory.name, state.selectedCategory.items);
-      if (newItems && newItems.length > 0) {
-        const updated = categories.map(c => 
-          c.id === state.selectedCategory!.id ? { ...c, items: [...c.items, ...newItems] } : c
-        );
-        setCategories(updated);
-        const refreshed = updated.find(cat => cat.id === state.selectedCategory?.id);
-        if (refreshed) setState(s => ({ ...s, selectedCategory: refreshed }));
+      const category = state.selectedCategory;
+      const { items: newItems, queued } = await expandCategorySafely(category, categories, profile.ageBand, homeLang);
+      if (newItems.length > 0) {
+        setCategories(prev => prev.map(c => (c.id === category.id ? { ...c, items: [...c.items, ...newItems] } : c)));
       }
+      if (queued > 0) alert(`${newItems.length} new words added. ${queued} more are waiting for a grown-up to check them.`);
     } catch (e) { 
       await handleApiError(e); 
     } finally { 
@@ -134,15 +347,42 @@ const App: React.FC = () => {
 
   return (
     <div className="flex-1 flex flex-col h-full w-full bg-white overflow-hidden relative">
+      {state.view === 'profiles' && <ProfilePicker onSelect={selectProfile} />}
+
       {state.view === 'main' && (
         <div className="flex-1 flex flex-col bg-slate-50 overflow-hidden pb-[var(--safe-bottom)]">
           <div className="bg-[#FFD233] pt-[calc(var(--safe-top)+1.5rem)] pb-8 px-6 rounded-b-[3rem] shadow-xl flex flex-col items-center flex-shrink-0 z-10">
             <h1 className="text-4xl font-kids text-white uppercase tracking-tighter drop-shadow-md">KIDS JOY</h1>
             <p className="text-white/80 font-bold text-[10px] mt-1 tracking-[0.2em] uppercase">Learning Adventure</p>
+            {profile && (
+              <button onClick={() => setState({ ...state, view: 'profiles' })} className="mt-4 bg-white/40 pl-2 pr-4 py-1.5 rounded-full flex items-center space-x-2 shadow-inner btn-tap">
+                <span className="text-2xl">{profile.avatar}</span>
+                <span className="font-kids text-white text-sm">{profile.name}</span>
+                <span className="font-black text-white/90 text-[10px]">⭐ {state.score}</span>
+              </button>
+            )}
           </div>
           
           <div className="flex-1 overflow-y-auto p-6 space-y-6 scroll-container hide-scrollbar">
-            {!hasMagicKey && (
+            {!isOnline && (
+              <div className="w-full bg-slate-200 p-5 rounded-[2rem] flex items-center space-x-4 text-slate-500">
+                <span className="text-3xl">📴</span>
+                <div className="text-left">
+                  <p className="font-kids text-sm uppercase">Magic unavailable offline</p>
+                  <p className="text-[9px] opacity-80">All words, games and saved sounds still work!</p>
+                </div>
+              </div>
+            )}
+            {isOnline && !hasMagicKey && !window.aistudio && (
+              <div className="w-full bg-slate-200 p-5 rounded-[2rem] flex items-center space-x-4 text-slate-500">
+                <span className="text-3xl">🌙</span>
+                <div className="text-left">
+                  <p className="font-kids text-sm uppercase">Magic is unavailable right now</p>
+                  <p className="text-[9px] opacity-80">Please try again later. Words and games still work!</p>
+                </div>
+              </div>
+            )}
+            {isOnline && !hasMagicKey && window.aistudio && (
               <button onClick={setupMagic} className="w-full bg-magic p-5 rounded-[2rem] shadow-xl flex items-center justify-between text-white magic-btn-active">
                 <div className="flex items-center space-x-4">
                   <span className="text-3xl">🪄</span>
@@ -156,10 +396,20 @@ const App: React.FC = () => {
             )}
 
             <div className="grid grid-cols-2 gap-4">
-              <button onClick={() => setState({ ...state, view: 'alphabet' })} className="col-span-2 bg-[#22C55E] p-6 rounded-[2.5rem] shadow-xl flex items-center justify-center space-x-4 btn-tap border-b-8 border-green-600">
-                <span className="text-4xl">🔤</span>
-                <span className="text-xl font-kids text-white">ABC ROOM</span>
+              <button onClick={() => setState({ ...state, view: 'alphabet' })} className="bg-[#22C55E] p-5 rounded-[2.5rem] shadow-xl flex items-center justify-center space-x-3 btn-tap border-b-8 border-green-600">
+                <span className="text-3xl">🔤</span>
+                <span className="text-lg font-kids text-white">ABC ROOM</span>
+              </button>
+              <button onClick={() => setState({ ...state, view: 'persian_alphabet' })} dir="rtl" className="bg-[#0EA5E9] p-5 rounded-[2.5rem] shadow-xl flex items-center justify-center gap-3 btn-tap border-b-8 border-sky-600">
+                <span className="text-3xl font-bold text-white">الف</span>
+                <span className="text-lg font-bold text-white">الفبا</span>
               </button>
+              {dueItems.length > 0 && (
+                <button onClick={() => setState({ ...state, view: 'review' })} className="col-span-2 bg-[#A855F7] p-6 rounded-[2.5rem] shadow-xl flex items-center justify-center space-x-4 btn-tap border-b-8 border-purple-700">
+                  <span className="text-4xl">🔁</span>
+                  <span className="text-xl font-kids text-white">REVIEW TODAY ({dueItems.length})</span>
+                </button>
+              )}
               <button onClick={() => setState({ ...state, view: 'game_types' })} className="col-span-2 bg-[#FF7043] p-6 rounded-[2.5rem] shadow-xl flex items-center justify-center space-x-4 btn-tap border-b-8 border-orange-600">
                 <span className="text-4xl">🎮</span>
                 <span className="text-xl font-kids text-white">PLAY GAMES</span>
@@ -180,10 +430,19 @@ const App: React.FC = () => {
                 ))}
               </div>
             </div>
+
+            {profile && (
+              <button onClick={() => setState({ ...state, view: 'parent' })} className="w-full text-[10px] font-bold text-slate-400 underline uppercase tracking-widest">👪 Parents</button>
+            )}
           </div>
         </div>
       )}
 
+      {state.view === 'parent' && profile && (
+        <ParentDashboard profile={profile} categories={categories} homeLang={homeLang} onCategoriesChange={setCategories}
+          onTranslated={(translated, lang) => setCategories(prev => withTranslations(prev, translated, lang))} onHomeLangChange={changeHomeLang} onBack={() => goBack('main')} />
+      )}
+
       {showAllCats && (
         <div className="fixed inset-0 bg-white z-[100] flex flex-col animate-in slide-in-from-bottom duration-300">
           <div className="bg-slate-50 p-6 flex items-center justify-between border-b">
@@ -204,7 +463,7 @@ const App: React.FC = () => {
       {state.view === 'learning_detail' && state.selectedCategory && (
         <div className="flex-1 flex flex-col overflow-hidden bg-white pb-[var(--safe-bottom)]">
           <div className="bg-[#FFD233] pt-[calc(var(--safe-top)+0.5rem)] pb-3 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0 z-10">
-            <button onClick={() => setState({...state, view: 'main'})} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner btn-tap">🏠</button>
+            <button onClick={() => goBack('main')} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner btn-tap">🏠</button>
             <h1 className="text-xl font-kids text-white uppercase font-bold tracking-widest">{state.selectedCategory.name}</h1>
             <button onClick={() => setShowAllCats(true)} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner btn-tap">📚</button>
           </div>
@@ -212,7 +471,7 @@ const App: React.FC = () => {
           <div className="flex-1 flex flex-col overflow-hidden bg-slate-50/50">
             <div className="flex overflow-x-auto horizontal-scroll hide-scrollbar px-6 py-4 space-x-4 bg-white/80 border-b border-slate-100 flex-shrink-0">
               {categories.map((c) => (
-                <button key={c.id} onClick={() => { setState({ ...state, selectedCategory: c }); setLearningIndex(0); setShowPersian(false); }} 
+                <button key={c.id} onClick={() => { setState({ ...state, selectedCategory: c }); setLearningIndex(0); setShowTranslation(false); }} 
                   className={`w-12 h-12 flex-shrink-0 rounded-2xl flex items-center justify-center text-2xl transition-all ${state.selectedCategory?.id === c.id ? 'bg-[#FF9F1C] text-white shadow-lg ring-4 ring-orange-100' : 'bg-white border opacity-60'}`}>{c.icon}</button>
               ))}
             </div>
@@ -220,20 +479,35 @@ const App: React.FC = () => {
             <div className="flex-1 flex flex-col items-center justify-center p-6 relative">
               {/* چیدمان اصلاح شده دکمه‌ها برای تداخل کمتر */}
               <div className="absolute top-4 left-4 flex flex-col space-y-4">
-                 <button onClick={handleImageGen} className={`w-16 h-16 bg-pink-500 rounded-2xl flex items-center justify-center text-3xl text-white shadow-2xl border-4 border-white z-20 btn-tap ${isGeneratingImg ? 'animate-spin' : ''}`}>
-                  {isGeneratingImg ? '⏳' : '🎨'}
+                 <button onClick={handleImageGen} disabled={!isOnline} className={`w-16 h-16 bg-pink-500 rounded-2xl flex items-center justify-center text-3xl text-white shadow-2xl border-4 border-white z-20 btn-tap disabled:bg-slate-300 ${isGeneratingImg ? 'animate-spin' : ''}`}>
+                  {!isOnline ? '📴' : isGeneratingImg ? '⏳' : '🎨'}
+                </button>
+                <button onClick={() => imageJobs.enqueueCategory(state.selectedCategory!)} disabled={!isOnline} title="Paint the whole category" className="w-16 h-16 bg-fuchsia-500 rounded-2xl flex flex-col items-center justify-center text-white shadow-2xl border-4 border-white z-20 btn-tap disabled:bg-slate-300">
+                  <span className="text-2xl leading-none">🖌️</span>
+                  <span className="text-[8px] font-black">ALL</span>
                 </button>
               </div>
 
-              <div className="absolute top-4 right-4">
-                <button onClick={() => handleSpeech(state.selectedCategory?.items[learningIndex]?.name || "")} className="w-16 h-16 bg-indigo-500 rounded-2xl flex items-center justify-center text-3xl text-white shadow-2xl border-4 border-white z-20 btn-tap">
+              <div className="absolute top-4 right-4 flex flex-col space-y-4">
+                <button onClick={speakCurrentItem} className="w-16 h-16 bg-indigo-500 rounded-2xl flex items-center justify-center text-3xl text-white shadow-2xl border-4 border-white z-20 btn-tap">
                   🔊
                 </button>
+                <button onClick={toggleSayBoth} title={`Say English and ${LANGUAGES[homeLang].englishName}`} className={`w-16 h-16 rounded-2xl flex items-center justify-center text-xs font-black shadow-2xl border-4 border-white z-20 btn-tap ${sayBoth ? 'bg-amber-400 text-white' : 'bg-white text-slate-400'}`}>
+                  EN+{LANGUAGES[homeLang].shortName}
+                </button>
+                {getRecognizer().isSupported() && (
+                  <button onClick={() => setSayItMode(m => !m)} title="Say it!" className={`w-16 h-16 rounded-2xl flex items-center justify-center text-3xl shadow-2xl border-4 border-white z-20 btn-tap ${sayItMode ? 'bg-emerald-500' : 'bg-white'}`}>
+                    🎤
+                  </button>
+                )}
+                <button onClick={handleDownloadAudio} disabled={!isOnline} title="Download pronunciations" className="w-16 h-16 bg-teal-500 rounded-2xl flex items-center justify-center text-white shadow-2xl border-4 border-white z-20 btn-tap disabled:bg-slate-300">
+                  {downloadProgress ? <span className="text-xs font-black">{downloadProgress.done}/{downloadProgress.total}</span> : <span className="text-3xl">📥</span>}
+                </button>
               </div>
 
               <div className="w-full max-w-[320px] relative">
-                <div onClick={() => setShowPersian(!showPersian)} className={`w-full aspect-square rounded-[4rem] shadow-2xl flex flex-col items-center justify-center relative border-[10px] transition-all duration-500 ${showPersian ? 'bg-indigo-600 border-indigo-400' : 'bg-white border-white'}`}>
-                  {!showPersian ? (
+                <div onClick={flipCard} className={`w-full aspect-square rounded-[4rem] shadow-2xl flex flex-col items-center justify-center relative border-[10px] transition-all duration-500 ${showTranslation ? 'bg-indigo-600 border-indigo-400' : 'bg-white border-white'}`}>
+                  {!showTranslation ? (
                     <div className="flex flex-col items-center justify-center p-8 w-full h-full">
                       <div className="flex-1 w-full flex items-center justify-center overflow-hidden mb-4">
                         {itemImage ? (
@@ -248,23 +522,31 @@ const App: React.FC = () => {
                     </div>
                   ) : (
                     <div className="text-center p-8 animate-in zoom-in flex flex-col items-center justify-center">
-                      <h2 className="text-6xl font-kids text-white mb-4" dir="rtl">{state.selectedCategory.items[learningIndex]?.persianName}</h2>
+                      <h2 className="text-6xl font-kids text-white mb-4" dir={LANGUAGES[homeLang].dir}>
+                        {(state.selectedCategory.items[learningIndex] && translationOf(state.selectedCategory.items[learningIndex], homeLang)) || (isTranslating ? '✨' : state.selectedCategory.items[learningIndex]?.name)}
+                      </h2>
                       <p className="text-xs text-white/30 uppercase font-black tracking-widest mt-8">TAP TO SEE PICTURE</p>
                     </div>
                   )}
                 </div>
 
+                {sayItMode && state.selectedCategory.items[learningIndex] && (
+                  <div className="mt-6">
+                    <SayItPanel item={state.selectedCategory.items[learningIndex]} lang={showTranslation && translationOf(state.selectedCategory.items[learningIndex], homeLang) ? homeLang : 'en'} onResult={handleSayItResult} />
+                  </div>
+                )}
+
                 <div className="flex w-full space-x-4 mt-8">
-                  <button onClick={() => { setLearningIndex(p => (p > 0 ? p - 1 : state.selectedCategory!.items.length - 1)); setShowPersian(false); }} className="flex-1 bg-white py-5 rounded-[2.5rem] font-black text-slate-300 text-lg shadow-md active:bg-slate-50 border-b-4 border-slate-100 transition-all">PREV</button>
-                  <button onClick={() => { setLearningIndex(p => (p < state.selectedCategory!.items.length - 1 ? p + 1 : 0)); setShowPersian(false); }} className="flex-1 bg-indigo-600 py-5 rounded-[2.5rem] font-black text-white shadow-xl text-lg active:bg-indigo-700 active:translate-y-1 transition-all">NEXT</button>
+                  <button onClick={() => { setLearningIndex(p => (p > 0 ? p - 1 : state.selectedCategory!.items.length - 1)); setShowTranslation(false); }} className="flex-1 bg-white py-5 rounded-[2.5rem] font-black text-slate-300 text-lg shadow-md active:bg-slate-50 border-b-4 border-slate-100 transition-all">PREV</button>
+                  <button onClick={() => { setLearningIndex(p => (p < state.selectedCategory!.items.length - 1 ? p + 1 : 0)); setShowTranslation(false); }} className="flex-1 bg-indigo-600 py-5 rounded-[2.5rem] font-black text-white shadow-xl text-lg active:bg-indigo-700 active:translate-y-1 transition-all">NEXT</button>
                 </div>
               </div>
             </div>
 
             <div className="px-8 pb-10 flex-shrink-0">
-              <button onClick={handleExpand} disabled={isExpanding} className={`w-full py-5 rounded-[3rem] font-black text-white shadow-2xl transition-all flex items-center justify-center space-x-3 text-lg tracking-widest active:scale-95 ${isExpanding ? 'bg-slate-300' : 'bg-magic magic-btn-active'}`}>
+              <button onClick={handleExpand} disabled={isExpanding || !isOnline} className={`w-full py-5 rounded-[3rem] font-black text-white shadow-2xl transition-all flex items-center justify-center space-x-3 text-lg tracking-widest active:scale-95 ${isExpanding || !isOnline ? 'bg-slate-300' : 'bg-magic magic-btn-active'}`}>
                 <span className="text-3xl">🪄</span>
-                <span>{isExpanding ? 'MAGIC...' : `GET 10 NEW`}</span>
+                <span>{!isOnline ? 'OFFLINE' : isExpanding ? 'MAGIC...' : `GET 10 NEW`}</span>
               </button>
             </div>
           </div>
@@ -274,43 +556,65 @@ const App: React.FC = () => {
       {state.view === 'alphabet' && (
         <div className="flex-1 flex flex-col overflow-hidden pb-[var(--safe-bottom)] bg-slate-50">
           <div className="bg-[#22C55E] pt-[calc(var(--safe-top)+0.5rem)] pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
-            <button onClick={() => setState({...state, view: 'main'})} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
+            <button onClick={() => goBack('main')} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
             <h1 className="text-xl font-kids text-white uppercase">ABC Room</h1>
             <div className="w-11"></div>
           </div>
           <div className="flex-1 p-5 grid grid-cols-2 gap-4 overflow-y-auto scroll-container hide-scrollbar">
-            {"ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("").map((letter) => (
-              <button key={letter} onClick={() => handleSpeech(letter)} className="aspect-square bg-white rounded-[2rem] shadow-xl border-b-[10px] border-slate-200 flex items-center justify-center text-6xl font-kids text-slate-700 active:translate-y-2 active:border-b-0 transition-all">
-                {letter}
-              </button>
-            ))}
+            {"ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("").map((letter) => {
+              const traced = lettersTraced[letter] ?? {};
+              const mark = traced.upper && traced.lower ? '⭐' : traced.upper || traced.lower ? '✨' : null;
+              return (
+                <button key={letter} onClick={() => setPhonicsLetter(letter)} className="relative aspect-square bg-white rounded-[2rem] shadow-xl border-b-[10px] border-slate-200 flex items-center justify-center text-6xl font-kids text-slate-700 active:translate-y-2 active:border-b-0 transition-all">
+                  {letter}
+                  {mark && <span className="absolute top-3 right-4 text-2xl">{mark}</span>}
+                </button>
+              );
+            })}
           </div>
+          {phonicsLetter && (
+            <PhonicsPanel letter={phonicsLetter} categories={categories} mastered={lettersTraced[phonicsLetter] ?? {}} onSpeak={text => handleSpeech(text)}
+              onTrace={() => setTracingLetter(phonicsLetter)} onPlay={() => playLetterGame(phonicsLetter)} onOpenWord={openLetterWord} onClose={() => setPhonicsLetter(null)} />
+          )}
+          {tracingLetter && (
+            <LetterTracer letter={tracingLetter} mastered={lettersTraced[tracingLetter] ?? {}} onSpeak={text => handleSpeech(text)}
+              onTraced={letterCase => setLettersTraced(letterMastery.record(tracingLetter, letterCase))} onClose={() => setTracingLetter(null)} />
+          )}
         </div>
       )}
 
+      {state.view === 'persian_alphabet' && (
+        <PersianAlphabetRoom categories={categories} onSpeak={handleSpeech} onOpenWord={openLetterWord} onBack={() => goBack('main')} />
+      )}
+
+      {state.view === 'review' && (
+        <ReviewDeck items={dueItems} homeLang={homeLang} onSpeak={handleSpeech} onBack={() => goBack('main')} />
+      )}
+
       {state.view === 'game_active' && state.selectedCategory && state.selectedGame && (
-        <GameEngine category={state.selectedCategory} gameType={state.selectedGame} onBack={() => setState({ ...state, view: 'game_types' })} />
+        <GameEngine category={state.selectedCategory} categories={categories} gameType={state.selectedGame} homeLang={homeLang} onScore={addScore}
+          onBack={() => goBack(state.selectedCategory?.id.startsWith(LETTER_CATEGORY_PREFIX) ? 'alphabet' : 'game_types')} />
       )}
 
       {(state.view === 'game_types' || state.view === 'game_cats') && (
         <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 pb-[var(--safe-bottom)]">
           <div className="bg-[#FFD233] pt-[calc(var(--safe-top)+0.5rem)] pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
-             <button onClick={() => setState({...state, view: 'main'})} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
+             <button onClick={() => goBack('main')} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
              <h1 className="text-xl font-kids text-white uppercase tracking-wider">Arcade</h1>
              <div className="w-11"></div>
           </div>
           <div className="flex-1 overflow-y-auto p-6 space-y-6 scroll-container hide-scrollbar">
             {state.view === 'game_types' ? (
-              Object.values(GameType).map(type => (
-                <button key={type} onClick={() => setState({ ...state, selectedGame: type, view: 'game_cats' })} className="w-full flex items-center p-7 bg-white rounded-[3rem] border-4 border-slate-50 shadow-2xl active:border-indigo-400 group active:scale-95 transition-all">
-                  <span className="text-6xl mr-6 group-active:scale-125 transition-transform">{type === GameType.FLASHCARDS ? '🗂️' : '🎮'}</span>
-                  <span className="text-xl font-kids text-indigo-700 uppercase">{type}</span>
+              GAME_REGISTRY.filter(game => !game.isAvailable || game.isAvailable()).map(game => (
+                <button key={game.id} onClick={() => setState({ ...state, selectedGame: game.id, view: 'game_cats' })} className="w-full flex items-center p-7 bg-white rounded-[3rem] border-4 border-slate-50 shadow-2xl active:border-indigo-400 group active:scale-95 transition-all">
+                  <span className="text-6xl mr-6 group-active:scale-125 transition-transform">{game.icon}</span>
+                  <span className="text-xl font-kids text-indigo-700 uppercase">{game.title}</span>
                 </button>
               ))
             ) : (
               <div className="grid grid-cols-2 gap-4">
                 {categories.map(cat => (
-                  <button key={cat.id} onClick={() => setState({ ...state, selectedCategory: cat, view: 'game_active' })} className={`${cat.color} p-6 rounded-[2rem] shadow-xl text-white flex flex-col items-center active:scale-90 transition-all border-b-8 border-black/10`}>
+                  <button key={cat.id} disabled={cat.items.length < (getGameModule(state.selectedGame!)?.minItems ?? 1)} onClick={() => setState({ ...state, selectedCategory: cat, view: 'game_active' })} className={`${cat.color} p-6 rounded-[2rem] shadow-xl text-white flex flex-col items-center active:scale-90 transition-all border-b-8 border-black/10 disabled:opacity-40`}>
                     <span className="text-5xl">{cat.icon}</span>
                     <span className="text-[10px] font-black mt-3 uppercase tracking-tighter truncate w-full px-1">{cat.name}</span>
                   </button>
@@ -320,6 +624,8 @@ const App: React.FC = () => {
           </div>
         </div>
       )}
+      <ImageJobsIndicator />
+      <UpdatePrompt />
     </div>
   );
 };
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { Category, HomeLang, Item } from '../types';
+import { imageStorage } from '../services/storage';
+import { assetsInUse } from '../services/contentPacks';
+import { resizePhoto } from '../services/photos';
+import { LANGUAGES, translationOf } from '../services/languages';
+
+const CATEGORY_COLORS = ['bg-orange-400', 'bg-pink-400', 'bg-sky-400', 'bg-emerald-400', 'bg-violet-400', 'bg-amber-400', 'bg-rose-400', 'bg-teal-400'];
+const EMOJI_CHOICES = [
+  '🐶', '🐱', '🐰', '🐠', '🐦', '🐢', '👵', '👴', '👩', '👨', '👧', '👦', '👶', '❤️', '🏠', '🏫',
+  '🚗', '🚲', '⚽', '🧸', '🎂', '🍎', '🍌', '🥛', '🍞', '🍪', '🌳', '🌸', '☀️', '🌙', '⭐', '🎈',
+];
+
+interface ItemDraft {
+  name: string;
+  /** In the profile's home language; other languages are kept as they were. */
+  translation: string;
+  emoji: string;
+  photo: string | null;
+}
+
+interface CategoryEditorProps {
+  categories: Category[];
+  homeLang: HomeLang;
+  onCategoriesChange: (categories: Category[]) => void;
+}
+
+const EmojiPicker: React.FC<{ value: string; onChange: (emoji: string) => void }> = ({ value, onChange }) => (
+  <div className="space-y-2">
+    <div className="grid grid-cols-8 gap-1.5">
+      {EMOJI_CHOICES.map(e => (
+        <button key={e} onClick={() => onChange(e)} className={`aspect-square rounded-xl text-xl flex items-center justify-center ${value === e ? 'bg-indigo-100 ring-2 ring-indigo-300' : 'bg-slate-50'}`}>{e}</button>
+      ))}
+    </div>
+    <input value={value} onChange={ev => onChange(ev.target.value)} placeholder="…or type any emoji" maxLength={8}
+      className="w-full bg-slate-50 rounded-2xl px-4 py-2 text-sm outline-none border-2 border-slate-100 focus:border-indigo-300" />
+  </div>
+);
+
+const ItemForm: React.FC<{ item: Item | null; homeLang: HomeLang; onSave: (draft: ItemDraft) => void; onCancel: () => void }> = ({ item, homeLang, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ItemDraft>({ name: item?.name ?? '', translation: item ? translationOf(item, homeLang) : '', emoji: item?.emoji ?? '⭐', photo: null });
+  const [currentPhoto, setCurrentPhoto] = useState<string | null>(null);
+  const [photoError, setPhotoError] = useState('');
+
+  useEffect(() => {
+    if (item) imageStorage.get(item.id).then(setCurrentPhoto);
+  }, [item]);
+
+  const handlePhoto = async (file?: File) => {
+    if (!file) return;
+    setPhotoError('');
+    try {
+      setDraft(d => ({ ...d, photo: null }));
+      const photo = await resizePhoto(file);
+      setDraft(d => ({ ...d, photo }));
+    } catch (e) {
+      setPhotoError("That photo couldn't be opened.");
+    }
+  };
+
+  const preview = draft.photo || currentPhoto;
+
+  return (
+    <div className="bg-slate-50 rounded-[2rem] p-4 space-y-3">
+      <div className="flex items-center space-x-3">
+        <div className="w-20 h-20 bg-white rounded-2xl flex items-center justify-center overflow-hidden flex-shrink-0">
+          {preview ? <img src={preview} alt="" className="w-full h-full object-cover" /> : <span className="text-4xl">{draft.emoji}</span>}
+        </div>
+        <div className="flex-1 space-y-2">
+          <label className="block bg-pink-500 text-white text-center py-2 rounded-xl text-xs font-black cursor-pointer">
+            📷 TAKE PHOTO
+            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+          </label>
+          <label className="block bg-white text-slate-500 text-center py-2 rounded-xl text-xs font-black cursor-pointer">
+            🖼️ UPLOAD
+            <input type="file" accept="image/*" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+          </label>
+        </div>
+      </div>
+      {photoError && <p className="text-xs font-bold text-rose-500">{photoError}</p>}
+      <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="English name" maxLength={30}
+        className="w-full bg-white rounded-2xl px-4 py-3 font-bold text-indigo-700 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+      <input value={draft.translation} onChange={e => setDraft({ ...draft, translation: e.target.value })} placeholder={LANGUAGES[homeLang].nativeName} maxLength={30} dir={LANGUAGES[homeLang].dir}
+        className="w-full bg-white rounded-2xl px-4 py-3 font-bold text-indigo-700 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+      <EmojiPicker value={draft.emoji} onChange={emoji => setDraft({ ...draft, emoji })} />
+      <div className="flex space-x-3">
+        <button onClick={onCancel} className="flex-1 bg-white py-3 rounded-2xl font-bold text-slate-400 text-sm">CANCEL</button>
+        <button onClick={() => onSave(draft)} disabled={!draft.name.trim() || !draft.emoji.trim()} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-bold text-sm disabled:opacity-40">SAVE</button>
+      </div>
+    </div>
+  );
+};
+
+/** Lets a parent create and rename categories and add, edit, reorder or delete their words. */
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ categories, homeLang, onCategoriesChange }) => {
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [editingItem, setEditingItem] = useState<Item | 'new' | null>(null);
+  const [isEditingCategory, setIsEditingCategory] = useState(false);
+  const [catName, setCatName] = useState('');
+  const [catIcon, setCatIcon] = useState('⭐');
+  const [catColor, setCatColor] = useState(CATEGORY_COLORS[0]);
+  const [thumbs, setThumbs] = useState<Record<string, string>>({});
+
+  const category = categories.find(c => c.id === categoryId) || null;
+
+  useEffect(() => {
+    if (!category) return;
+    Promise.all(category.items.map(async it => [it.id, await imageStorage.get(it.id)] as const)).then(entries => {
+      const map: Record<string, string> = {};
+      entries.forEach(([id, data]) => { if (data) map[id] = data; });
+      setThumbs(map);
+    });
+  }, [category]);
+
+  // تصویر مشترک فقط وقتی پاک می‌شود که هیچ کلمه یا بسته‌ای در هیچ پروفایلی از آن استفاده نکند
+  const forgetImages = async (itemIds: string[], remaining: Category[]) => {
+    const inUse = assetsInUse(remaining);
+    await Promise.all(itemIds.map(async id => {
+      await imageStorage.removePhoto(id);
+      if (!inUse({ kind: 'image', id })) await imageStorage.remove(id);
+    }));
+  };
+
+  const updateCategory = (id: string, change: (c: Category) => Category) =>
+    onCategoriesChange(categories.map(c => (c.id === id ? change(c) : c)));
+
+  const openCategoryForm = (c: Category | null) => {
+    setCatName(c?.name ?? '');
+    setCatIcon(c?.icon ?? '⭐');
+    setCatColor(c?.color ?? CATEGORY_COLORS[0]);
+    setIsEditingCategory(true);
+  };
+
+  const saveCategory = () => {
+    if (!catName.trim()) return;
+    if (category) {
+      updateCategory(category.id, c => ({ ...c, name: catName.trim(), icon: catIcon, color: catColor }));
+    } else {
+      const created: Category = { id: `cat-custom-${Date.now()}`, name: catName.trim(), icon: catIcon, color: catColor, items: [] };
+      onCategoriesChange([...categories, created]);
+      setCategoryId(created.id);
+    }
+    setIsEditingCategory(false);
+  };
+
+  const deleteCategory = async () => {
+    if (!category || !confirm(`Delete "${category.name}" and all its words?`)) return;
+    const remaining = categories.filter(c => c.id !== category.id);
+    await forgetImages(category.items.map(it => it.id), remaining);
+    onCategoriesChange(remaining);
+    setCategoryId(null);
+  };
+
+  const saveItem = async (draft: ItemDraft) => {
+    if (!category) return;
+    const { [homeLang]: _old, ...otherTranslations } = editingItem && editingItem !== 'new' ? editingItem.translations : {};
+    const translation = draft.translation.trim();
+    const fields = { name: draft.name.trim(), translations: translation ? { ...otherTranslations, [homeLang]: translation } : otherTranslations, emoji: draft.emoji.trim() };
+    const saved: Item = editingItem && editingItem !== 'new'
+      ? { ...editingItem, ...fields }
+      : { id: `custom-${Date.now()}`, color: 'bg-white', ...fields };
+    if (draft.photo) await imageStorage.setPhoto(saved.id, draft.photo);
+    updateCategory(category.id, c => ({
+      ...c,
+      items: editingItem === 'new' ? [...c.items, saved] : c.items.map(it => (it.id === saved.id ? saved : it)),
+    }));
+    setEditingItem(null);
+  };
+
+  const deleteItem = async (item: Item) => {
+    if (!category || !confirm(`Delete "${item.name}"?`)) return;
+    const remaining = categories.map(c => (c.id === category.id ? { ...c, items: c.items.filter(it => it.id !== item.id) } : c));
+    await forgetImages([item.id], remaining);
+    onCategoriesChange(remaining);
+  };
+
+  const moveItem = (index: number, delta: number) => {
+    if (!category) return;
+    const target = index + delta;
+    if (target < 0 || target >= category.items.length) return;
+    const items = [...category.items];
+    [items[index], items[target]] = [items[target], items[index]];
+    updateCategory(category.id, c => ({ ...c, items }));
+  };
+
+  const renderCategoryForm = () => (
+    <div className="bg-slate-50 rounded-[2rem] p-4 space-y-3">
+      <input value={catName} onChange={e => setCatName(e.target.value)} placeholder="Category name" maxLength={30}
+        className="w-full bg-white rounded-2xl px-4 py-3 font-bold text-indigo-700 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+      <EmojiPicker value={catIcon} onChange={setCatIcon} />
+      <div className="flex space-x-2">
+        {CATEGORY_COLORS.map(color => (
+          <button key={color} onClick={() => setCatColor(color)} className={`flex-1 h-8 rounded-xl ${color} ${catColor === color ? 'ring-4 ring-indigo-300' : ''}`} />
+        ))}
+      </div>
+      <div className="flex space-x-3">
+        <button onClick={() => setIsEditingCategory(false)} className="flex-1 bg-white py-3 rounded-2xl font-bold text-slate-400 text-sm">CANCEL</button>
+        <button onClick={saveCategory} disabled={!catName.trim()} className="flex-1 bg-indigo-600 text-white py-3 rounded-2xl font-bold text-sm disabled:opacity-40">SAVE</button>
+      </div>
+    </div>
+  );
+
+  if (!category) {
+    return (
+      <div className="flex-1 overflow-y-auto p-6 space-y-4 scroll-container hide-scrollbar">
+        {isEditingCategory ? renderCategoryForm() : (
+          <button onClick={() => openCategoryForm(null)} className="w-full bg-indigo-600 text-white py-4 rounded-3xl font-bold shadow-xl">➕ NEW CATEGORY</button>
+        )}
+        <div className="grid grid-cols-2 gap-3">
+          {categories.map(c => (
+            <button key={c.id} onClick={() => { setCategoryId(c.id); setEditingItem(null); setIsEditingCategory(false); }} className={`${c.color} p-4 rounded-[1.5rem] shadow-md text-white flex items-center space-x-2`}>
+              <span className="text-2xl">{c.icon}</span>
+              <span className="text-xs font-black uppercase truncate">{c.name}</span>
+              <span className="text-[10px] font-bold text-white/70 ml-auto">{c.items.length}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6 space-y-4 scroll-container hide-scrollbar">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setCategoryId(null)} className="text-xs font-black text-indigo-500 uppercase">← All categories</button>
+        <div className="space-x-3">
+          <button onClick={() => openCategoryForm(category)} className="text-xs font-black text-slate-500 uppercase">Rename</button>
+          <button onClick={deleteCategory} className="text-xs font-black text-rose-500 uppercase">Delete</button>
+        </div>
+      </div>
+
+      {isEditingCategory ? renderCategoryForm() : (
+        <h2 className="text-2xl font-kids text-indigo-700 uppercase">{category.icon} {category.name}</h2>
+      )}
+
+      {editingItem === 'new' ? (
+        <ItemForm item={null} homeLang={homeLang} onSave={saveItem} onCancel={() => setEditingItem(null)} />
+      ) : (
+        <button onClick={() => setEditingItem('new')} className="w-full bg-white border-4 border-dashed border-slate-200 py-3 rounded-3xl font-black text-slate-400 text-sm">➕ ADD WORD</button>
+      )}
+
+      {category.items.map((item, index) => (
+        editingItem !== 'new' && editingItem?.id === item.id ? (
+          <ItemForm key={item.id} item={item} homeLang={homeLang} onSave={saveItem} onCancel={() => setEditingItem(null)} />
+        ) : (
+          <div key={item.id} className="bg-white rounded-2xl shadow-md p-3 flex items-center space-x-3">
+            <div className="w-12 h-12 rounded-xl bg-slate-50 flex items-center justify-center overflow-hidden flex-shrink-0">
+              {thumbs[item.id] ? <img src={thumbs[item.id]} alt="" className="w-full h-full object-cover" /> : <span className="text-2xl">{item.emoji}</span>}
+            </div>
+            <button onClick={() => setEditingItem(item)} className="flex-1 text-left min-w-0">
+              <p className="font-bold text-slate-600 truncate">{item.name}</p>
+              <p className="text-xs text-slate-400 truncate" dir={LANGUAGES[homeLang].dir}>{translationOf(item, homeLang)}</p>
+            </button>
+            <div className="flex flex-col">
+              <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="text-slate-400 disabled:opacity-20 px-2">▲</button>
+              <button onClick={() => moveItem(index, 1)} disabled={index === category.items.length - 1} className="text-slate-400 disabled:opacity-20 px-2">▼</button>
+            </div>
+            <button onClick={() => deleteItem(item)} className="w-9 h-9 rounded-full bg-rose-50 text-rose-500 flex items-center justify-center">✕</button>
+          </div>
+        )
+      ))}
+    </div>
+  );
+};
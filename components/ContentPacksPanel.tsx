@@ -0,0 +1,89 @@
+import React, { useState, useRef } from 'react';
+import { Category } from '../types';
+import { ContentPackError, contentPacks, downloadPack, InstalledPack, parsePack } from '../services/contentPacks';
+
+interface ContentPacksPanelProps {
+  categories: Category[];
+  onCategoriesChange: (categories: Category[]) => void;
+}
+
+export const ContentPacksPanel: React.FC<ContentPacksPanelProps> = ({ categories, onCategoriesChange }) => {
+  const [installed, setInstalled] = useState<InstalledPack[]>(() => contentPacks.list());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [packName, setPackName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File) => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const pack = parsePack(await file.text());
+      onCategoriesChange(await contentPacks.importPack(pack, categories));
+      setInstalled(contentPacks.list());
+      setMessage(`Installed "${pack.name}".`);
+    } catch (e) {
+      setMessage(e instanceof ContentPackError ? e.problems.join('\n') : 'Import failed.');
+    } finally {
+      setBusy(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  const handleRemove = async (pack: InstalledPack) => {
+    if (!confirm(`Remove "${pack.name}" and its words?`)) return;
+    onCategoriesChange(await contentPacks.removePack(pack.id, categories));
+    setInstalled(contentPacks.list());
+  };
+
+  const handleExport = async () => {
+    const chosen = categories.filter(c => selected.has(c.id));
+    if (chosen.length === 0 || !packName.trim()) return;
+    setBusy(true);
+    try {
+      downloadPack(await contentPacks.exportPack(packName, chosen));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  return (
+    <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-4">
+      <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest">Content packs</h2>
+
+      <input ref={fileInput} type="file" accept=".json,application/json" className="hidden"
+        onChange={e => e.target.files?.[0] && handleImport(e.target.files[0])} />
+      <button onClick={() => fileInput.current?.click()} disabled={busy} className="w-full bg-indigo-600 text-white py-3 rounded-2xl font-bold text-sm disabled:opacity-40">📦 IMPORT PACK</button>
+      {message && <p className="text-xs font-bold text-slate-500 whitespace-pre-line">{message}</p>}
+
+      {installed.map(pack => (
+        <div key={pack.id} className="flex items-center justify-between text-sm">
+          <span className="font-bold text-slate-600">📦 {pack.name} <span className="text-slate-300 text-xs">({pack.categoryIds.length})</span></span>
+          <button onClick={() => handleRemove(pack)} className="text-xs font-black text-rose-500 uppercase">Remove</button>
+        </div>
+      ))}
+
+      <div className="border-t border-slate-100 pt-4 space-y-3">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Export categories</p>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(c => (
+            <button key={c.id} onClick={() => toggle(c.id)} className={`px-3 py-1.5 rounded-xl text-xs font-bold ${selected.has(c.id) ? 'bg-indigo-100 text-indigo-700 ring-2 ring-indigo-300' : 'bg-slate-50 text-slate-400'}`}>
+              {c.icon} {c.name}
+            </button>
+          ))}
+        </div>
+        <input value={packName} onChange={e => setPackName(e.target.value)} placeholder="Pack name" maxLength={40}
+          className="w-full bg-slate-50 rounded-2xl px-4 py-3 text-sm font-bold text-indigo-700 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+        <button onClick={handleExport} disabled={busy || selected.size === 0 || !packName.trim()} className="w-full bg-teal-500 text-white py-3 rounded-2xl font-bold text-sm disabled:opacity-40">⬇️ EXPORT {selected.size > 0 ? `(${selected.size})` : ''}</button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Category, HomeLang } from '../types';
+import { HOME_LANGS, LANGUAGES } from '../services/languages';
+import { countMissingTranslations, translateMissing } from '../services/translations';
+import { toAIError } from '../services/aiProvider';
+
+interface HomeLanguagePanelProps {
+  homeLang: HomeLang;
+  categories: Category[];
+  onHomeLangChange: (lang: HomeLang) => void;
+  /** Item id → translation; applied to the latest categories, so words edited meanwhile are kept. */
+  onTranslated: (translated: Map<string, string>, lang: HomeLang) => void;
+}
+
+/** Which language is on the back of the cards, and AI translations for words that don't have one yet. */
+export const HomeLanguagePanel: React.FC<HomeLanguagePanelProps> = ({ homeLang, categories, onHomeLangChange, onTranslated }) => {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState('');
+  const missing = countMissingTranslations(categories, homeLang);
+
+  const fill = async () => {
+    setBusy(true);
+    setMessage('');
+    try {
+      const translated = await translateMissing(categories.flatMap(c => c.items), homeLang);
+      onTranslated(translated, homeLang);
+      const left = missing - translated.size;
+      setMessage(`Translated ${translated.size} word${translated.size === 1 ? '' : 's'}.${left ? ` ${left} still need one; add them under Words.` : ''}`);
+    } catch (e) {
+      setMessage(toAIError(e).kind === 'offline' ? 'Connect to the internet to translate.' : 'Translating failed. Please try again later.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-4">
+      <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest">Home language</h2>
+      <div className="grid grid-cols-2 gap-2">
+        {HOME_LANGS.map(lang => (
+          <button key={lang} onClick={() => { setMessage(''); onHomeLangChange(lang); }} className={`py-2.5 rounded-2xl text-sm font-bold ${homeLang === lang ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-500'}`}>
+            {LANGUAGES[lang].nativeName}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-slate-400">
+        {missing === 0 ? `Every word has a ${LANGUAGES[homeLang].englishName} translation.` : `${missing} word${missing === 1 ? '' : 's'} without a ${LANGUAGES[homeLang].englishName} translation.`}
+      </p>
+      {missing > 0 && (
+        <button onClick={fill} disabled={busy} className="w-full bg-amber-400 text-white py-3 rounded-2xl font-bold text-sm disabled:opacity-40">
+          {busy ? '✨ TRANSLATING…' : '✨ TRANSLATE MISSING WORDS'}
+        </button>
+      )}
+      {message && <p className="text-xs font-bold text-slate-500">{message}</p>}
+    </section>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { imageJobs } from '../services/imageJobs';
+import { useImageJobs } from '../hooks/useImageJobs';
+
+const BLOCKED_LABELS: Record<string, string> = {
+  offline: 'Waiting for internet',
+  auth: 'Needs a magic key',
+};
+
+/** Floating pill that shows the "paint the whole category" queue on every screen. */
+export const ImageJobsIndicator: React.FC = () => {
+  const { jobs, paused, cooldownUntil, blockedReason } = useImageJobs();
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => job.status === 'done' || job.status === 'skipped' || job.status === 'failed').length;
+  const failed = jobs.filter(job => job.status === 'failed').length;
+  const isDone = finished === jobs.length;
+  const status = isDone ? (failed ? `${failed} failed` : 'All painted!')
+    : blockedReason ? BLOCKED_LABELS[blockedReason] ?? 'Stopped'
+    : paused ? 'Paused'
+    : cooldownUntil > Date.now() ? 'Resting…'
+    : 'Painting…';
+
+  return (
+    <div className="fixed bottom-[calc(var(--safe-bottom)+0.75rem)] left-3 z-[150] bg-white/95 rounded-full shadow-xl border-2 border-pink-100 pl-2 pr-1 py-1 flex items-center space-x-2 animate-in fade-in">
+      <span className={`text-lg ${!isDone && !paused && !blockedReason ? 'animate-bounce' : ''}`}>🎨</span>
+      <div className="flex flex-col leading-none">
+        <span className="text-[10px] font-black text-pink-500">{finished}/{jobs.length}</span>
+        <span className="text-[8px] font-bold text-slate-400 uppercase">{status}</span>
+      </div>
+      {isDone ? (
+        <button onClick={() => imageJobs.clear()} className="w-7 h-7 rounded-full bg-slate-100 text-slate-400 text-xs">✕</button>
+      ) : (
+        <button onClick={() => (paused || blockedReason ? imageJobs.resume() : imageJobs.pause())} className="w-7 h-7 rounded-full bg-pink-500 text-white text-xs">
+          {paused || blockedReason ? '▶' : '⏸'}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { checkTrace, GUIDE_LINES, LETTER_STROKES, LetterCase, Point, Stroke, TraceResult } from '../services/tracing';
+
+interface LetterTracerProps {
+  letter: string;
+  mastered: Partial<Record<LetterCase, number>>;
+  onSpeak: (text: string) => void;
+  onTraced: (letterCase: LetterCase) => void;
+  onClose: () => void;
+}
+
+const HINTS: Record<string, string> = {
+  empty: "Trace the grey letter with your finger!",
+  coverage: "Almost! Trace all of line",
+  direction: "Start at the number and follow the arrow on line",
+  messy: "Stay on the grey letter!",
+};
+
+const STROKE_COLORS = ['#6366F1', '#F97316', '#22C55E', '#EC4899'];
+
+/** Draws the guide lines, the grey letter, numbered starts with arrows, and the child's ink. */
+const paint = (ctx: CanvasRenderingContext2D, size: number, guide: Stroke[], ink: Stroke[], result: TraceResult | null) => {
+  const px = (v: number) => (v / 100) * size;
+  const trace = (stroke: Stroke) => {
+    ctx.beginPath();
+    stroke.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(px(x), px(y)) : ctx.lineTo(px(x), px(y))));
+    if (stroke.length === 1) ctx.lineTo(px(stroke[0][0]) + 0.1, px(stroke[0][1]));
+    ctx.stroke();
+  };
+
+  ctx.clearRect(0, 0, size, size);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  // خطوط دفتر مشق
+  ctx.lineWidth = 2;
+  [GUIDE_LINES.top, GUIDE_LINES.middle, GUIDE_LINES.base].forEach((y, i) => {
+    ctx.strokeStyle = i === 2 ? '#94A3B8' : '#CBD5E1';
+    ctx.setLineDash(i === 1 ? [10, 10] : []);
+    ctx.beginPath();
+    ctx.moveTo(0, px(y));
+    ctx.lineTo(size, px(y));
+    ctx.stroke();
+  });
+  ctx.setLineDash([]);
+
+  guide.forEach((stroke, i) => {
+    ctx.lineWidth = size * 0.09;
+    ctx.strokeStyle = result?.strokeIndex === i ? '#FDE68A' : '#E2E8F0';
+    trace(stroke);
+  });
+
+  // شماره‌ی هر خط در نقطه‌ی شروع و یک فلش در جهت حرکت
+  guide.forEach((stroke, i) => {
+    const color = STROKE_COLORS[i % STROKE_COLORS.length];
+    const [sx, sy] = stroke[0];
+    if (stroke.length > 1) {
+      const [nx, ny] = stroke[Math.min(stroke.length - 1, Math.max(1, Math.floor(stroke.length / 3)))];
+      const angle = Math.atan2(ny - sy, nx - sx);
+      const [ax, ay] = [px(sx + (nx - sx) * 0.6), px(sy + (ny - sy) * 0.6)];
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(ax + Math.cos(angle) * size * 0.035, ay + Math.sin(angle) * size * 0.035);
+      ctx.lineTo(ax + Math.cos(angle + 2.5) * size * 0.03, ay + Math.sin(angle + 2.5) * size * 0.03);
+      ctx.lineTo(ax + Math.cos(angle - 2.5) * size * 0.03, ay + Math.sin(angle - 2.5) * size * 0.03);
+      ctx.fill();
+    }
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(px(sx), px(sy), size * 0.035, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = `bold ${Math.round(size * 0.04)}px Fredoka, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(i + 1), px(sx), px(sy));
+  });
+
+  ctx.lineWidth = size * 0.045;
+  ctx.strokeStyle = result?.passed ? '#22C55E' : '#6366F1';
+  ink.forEach(trace);
+};
+
+/** Full-screen tracing board for one letter, in upper or lower case. */
+export const LetterTracer: React.FC<LetterTracerProps> = ({ letter, mastered, onSpeak, onTraced, onClose }) => {
+  const [letterCase, setLetterCase] = useState<LetterCase>('upper');
+  const [ink, setInk] = useState<Stroke[]>([]);
+  const [result, setResult] = useState<TraceResult | null>(null);
+  const [size, setSize] = useState(0);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef<Stroke | null>(null);
+  const guide = LETTER_STROKES[letter][letterCase];
+
+  useEffect(() => {
+    const box = boxRef.current;
+    if (!box) return;
+    const observer = new ResizeObserver(() => setSize(Math.max(0, Math.floor(Math.min(box.clientWidth, box.clientHeight)) - 32)));
+    observer.observe(box);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    setInk([]);
+    setResult(null);
+    // نام حرف برای هر دو شکل یکی است؛ «a» کوچک را موتور صدا مثل حرف تعریف می‌خواند
+    onSpeak(letter);
+  }, [letter, letterCase]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = size * ratio;
+    canvas.height = size * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    paint(ctx, size, guide, drawing.current ? [...ink, drawing.current] : ink, result);
+  }, [size, guide, ink, result]);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [((e.clientX - rect.left) / rect.width) * 100, ((e.clientY - rect.top) / rect.height) * 100];
+  };
+
+  const redraw = () => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && drawing.current) paint(ctx, size, guide, [...ink, drawing.current], null);
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (result?.passed) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = [toPoint(e)];
+    setResult(null);
+    redraw();
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current.push(toPoint(e));
+    redraw();
+  };
+
+  const handleUp = () => {
+    if (!drawing.current) return;
+    const stroke = drawing.current;
+    drawing.current = null;
+    setInk(prev => [...prev, stroke]);
+  };
+
+  const check = () => {
+    const next = checkTrace(guide, ink);
+    setResult(next);
+    if (next.passed) {
+      onSpeak("Awesome!");
+      onTraced(letterCase);
+    }
+  };
+
+  const hint = result && !result.passed && result.problem
+    ? `${HINTS[result.problem]}${result.problem === 'coverage' || result.problem === 'direction' ? ` ${(result.strokeIndex ?? 0) + 1}` : ''}`
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-50 flex flex-col pt-[var(--safe-top)] pb-[var(--safe-bottom)]">
+      <div className="bg-[#22C55E] pt-2 pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+        <button onClick={onClose} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">✕</button>
+        <div className="flex bg-white/30 rounded-full p-1">
+          {(['upper', 'lower'] as LetterCase[]).map(c => (
+            <button key={c} onClick={() => setLetterCase(c)} className={`min-w-14 px-3 h-10 rounded-full font-kids text-xl transition-all ${letterCase === c ? 'bg-white text-green-600 shadow' : 'text-white'}`}>
+              {c === 'upper' ? letter : letter.toLowerCase()}{mastered[c] ? '⭐' : ''}
+            </button>
+          ))}
+        </div>
+        <button onClick={() => onSpeak(letter)} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🔊</button>
+      </div>
+
+      <div ref={boxRef} className="flex-1 flex items-center justify-center p-4 min-h-0 relative">
+        <canvas ref={canvasRef} style={{ width: size, height: size, touchAction: 'none' }}
+          className="bg-white rounded-[2rem] shadow-xl"
+          onPointerDown={handleDown} onPointerMove={handleMove} onPointerUp={handleUp} onPointerCancel={handleUp} />
+        {result?.passed && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <span className="text-5xl font-kids text-[#FF9F1C] drop-shadow-xl animate-in zoom-in">✨ Awesome! ✨</span>
+          </div>
+        )}
+      </div>
+
+      <div className="px-6 pb-4 space-y-3 flex-shrink-0">
+        <p className="h-5 text-center text-sm font-black text-amber-500 uppercase">{hint}</p>
+        <div className="flex space-x-3">
+          <button onClick={() => { setInk([]); setResult(null); }} className="flex-1 bg-white text-slate-500 py-4 rounded-[2rem] font-black shadow-lg active:scale-95">🧽 CLEAR</button>
+          {result?.passed ? (
+            <button onClick={() => setLetterCase(letterCase === 'upper' ? 'lower' : 'upper')} className="flex-[2] bg-indigo-500 text-white py-4 rounded-[2rem] font-black shadow-lg active:scale-95">
+              TRY {letterCase === 'upper' ? letter.toLowerCase() : letter} ➔
+            </button>
+          ) : (
+            <button onClick={check} disabled={ink.length === 0} className="flex-[2] bg-[#22C55E] disabled:opacity-50 text-white py-4 rounded-[2rem] font-black shadow-lg active:scale-95">✓ DONE</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
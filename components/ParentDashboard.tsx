@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Category, HomeLang } from '../types';
+import { ChildProfile } from '../services/profiles';
+import { parentPin } from '../services/parentPin';
+import { ContentPacksPanel } from './ContentPacksPanel';
+import { CategoryEditor } from './CategoryEditor';
+import { WordReviewPanel } from './WordReviewPanel';
+import { HomeLanguagePanel } from './HomeLanguagePanel';
+import { computeStats, dayKey, learningLog, LearningStats } from '../services/learningLog';
+
+const PIN_LENGTH = 4;
+const CALENDAR_DAYS = 28;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ParentDashboardProps {
+  profile: ChildProfile;
+  categories: Category[];
+  homeLang: HomeLang;
+  onCategoriesChange: (categories: Category[]) => void;
+  onTranslated: (translated: Map<string, string>, lang: HomeLang) => void;
+  onHomeLangChange: (lang: HomeLang) => void;
+  onBack: () => void;
+}
+
+const PinPad: React.FC<{ onUnlock: () => void }> = ({ onUnlock }) => {
+  const [isNew] = useState(() => !parentPin.isSet());
+  const [pin, setPin] = useState('');
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const submit = async (value: string) => {
+    if (!isNew) {
+      if (await parentPin.verify(value)) onUnlock();
+      else { setError('Wrong PIN'); setPin(''); }
+      return;
+    }
+    if (!firstPin) { setFirstPin(value); setPin(''); return; }
+    if (firstPin !== value) { setError('PINs do not match'); setFirstPin(null); setPin(''); return; }
+    await parentPin.set(value);
+    onUnlock();
+  };
+
+  const press = (digit: string) => {
+    setError('');
+    const next = (pin + digit).slice(0, PIN_LENGTH);
+    setPin(next);
+    if (next.length === PIN_LENGTH) submit(next);
+  };
+
+  const title = !isNew ? 'Enter parent PIN' : firstPin ? 'Repeat the new PIN' : 'Choose a parent PIN';
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-6 p-6">
+      <p className="text-xs font-black text-slate-400 uppercase tracking-widest">{title}</p>
+      <div className="flex space-x-3">
+        {Array.from({ length: PIN_LENGTH }, (_, i) => (
+          <div key={i} className={`w-5 h-5 rounded-full ${i < pin.length ? 'bg-indigo-600' : 'bg-slate-200'}`} />
+        ))}
+      </div>
+      <p className="text-xs font-bold text-rose-500 h-4">{error}</p>
+      <div className="grid grid-cols-3 gap-3 w-64">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'].map((key, i) => (
+          key === '' ? <div key={i} /> : (
+            <button key={i} onClick={() => (key === '⌫' ? setPin(p => p.slice(0, -1)) : press(key))} className="h-16 bg-white rounded-2xl shadow-md text-2xl font-bold text-slate-600 active:bg-slate-100">{key}</button>
+          )
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const ParentDashboard: React.FC<ParentDashboardProps> = ({ profile, categories, homeLang, onCategoriesChange, onTranslated, onHomeLangChange, onBack }) => {
+  const [unlocked, setUnlocked] = useState(false);
+  const [stats, setStats] = useState<LearningStats | null>(null);
+  const [tab, setTab] = useState<'progress' | 'words'>('progress');
+
+  useEffect(() => {
+    if (!unlocked) return;
+    learningLog.load().then(({ events, reviews }) => setStats(computeStats(events, reviews, categories)));
+  }, [unlocked, categories]);
+
+  const renderStats = (s: LearningStats) => {
+    const today = Date.now();
+    const days = Array.from({ length: CALENDAR_DAYS }, (_, i) => dayKey(today - (CALENDAR_DAYS - 1 - i) * DAY_MS));
+    const recentMinutes = days.slice(-7);
+    const maxMinutes = Math.max(1, ...recentMinutes.map(d => s.minutesByDay[d] || 0));
+
+    return (
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 scroll-container hide-scrollbar">
+        <section className="bg-white rounded-[2rem] shadow-xl p-5">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest">Streak</h2>
+            <span className="font-kids text-orange-500 text-lg">🔥 {s.streak} day{s.streak === 1 ? '' : 's'}</span>
+          </div>
+          <div className="grid grid-cols-7 gap-1.5">
+            {days.map(day => (
+              <div key={day} title={day} className={`aspect-square rounded-md ${s.activeDays.has(day) ? 'bg-green-400' : 'bg-slate-100'}`} />
+            ))}
+          </div>
+        </section>
+
+        <section className="bg-white rounded-[2rem] shadow-xl p-5">
+          <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Minutes per day</h2>
+          <div className="flex items-end h-24 space-x-2">
+            {recentMinutes.map(day => (
+              <div key={day} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div className="w-full bg-indigo-400 rounded-t-md" style={{ height: `${((s.minutesByDay[day] || 0) / maxMinutes) * 100}%` }} />
+                <span className="text-[8px] text-slate-400 mt-1">{day.slice(8)}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-2">
+          <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Accuracy by game</h2>
+          {s.accuracy.length === 0 && <p className="text-xs text-slate-300">No games played yet.</p>}
+          {s.accuracy.map(a => (
+            <div key={a.gameType} className="flex items-center justify-between text-sm">
+              <span className="font-bold text-slate-600">{a.gameType}</span>
+              <span className="font-black text-indigo-600">{Math.round((a.correct / a.total) * 100)}% <span className="text-slate-300 text-xs">({a.correct}/{a.total})</span></span>
+            </div>
+          ))}
+        </section>
+
+        <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-2">
+          <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-1">Most missed</h2>
+          {s.mostMissed.length === 0 && <p className="text-xs text-slate-300">Nothing missed yet.</p>}
+          {s.mostMissed.map(m => (
+            <div key={m.item.id} className="flex items-center justify-between text-sm">
+              <span className="font-bold text-slate-600">{m.item.emoji} {m.item.name}</span>
+              <span className="font-black text-rose-500">✗ {m.wrong}</span>
+            </div>
+          ))}
+        </section>
+
+        <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-3">
+          <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest">Words seen / mastered</h2>
+          {s.categories.map(c => (
+            <div key={c.category.id}>
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="font-bold text-slate-600">{c.category.icon} {c.category.name}</span>
+                <span className="text-slate-400">{c.seen} seen · {c.mastered} mastered / {c.category.items.length}</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden relative">
+                <div className="absolute inset-y-0 left-0 bg-indigo-200" style={{ width: `${(c.seen / Math.max(1, c.category.items.length)) * 100}%` }} />
+                <div className="absolute inset-y-0 left-0 bg-green-500" style={{ width: `${(c.mastered / Math.max(1, c.category.items.length)) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <HomeLanguagePanel homeLang={homeLang} categories={categories} onHomeLangChange={onHomeLangChange} onTranslated={onTranslated} />
+
+        <WordReviewPanel categories={categories} onCategoriesChange={onCategoriesChange} />
+
+        <ContentPacksPanel categories={categories} onCategoriesChange={onCategoriesChange} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 pb-[var(--safe-bottom)]">
+      <div className="bg-slate-700 pt-[calc(var(--safe-top)+0.5rem)] pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+        <button onClick={onBack} className="bg-white/20 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
+        <h1 className="text-lg font-kids text-white uppercase">{profile.avatar} {profile.name}</h1>
+        <div className="w-11"></div>
+      </div>
+      {unlocked && (
+        <div className="flex mx-6 mt-4 bg-slate-200 rounded-2xl p-1 flex-shrink-0">
+          {(['progress', 'words'] as const).map(t => (
+            <button key={t} onClick={() => setTab(t)} className={`flex-1 py-2 rounded-xl text-xs font-black uppercase ${tab === t ? 'bg-white text-indigo-600 shadow' : 'text-slate-500'}`}>
+              {t === 'progress' ? '📊 Progress' : '✏️ Words'}
+            </button>
+          ))}
+        </div>
+      )}
+      {!unlocked ? <PinPad onUnlock={() => setUnlocked(true)} />
+        : tab === 'words' ? <CategoryEditor categories={categories} homeLang={homeLang} onCategoriesChange={onCategoriesChange} />
+        : stats ? renderStats(stats) : null}
+    </div>
+  );
+};
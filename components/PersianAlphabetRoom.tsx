@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Category, SpeechLang } from '../types';
+import { LetterWord } from '../services/phonics';
+import { translationOf } from '../services/languages';
+import { FORM_LABELS, LetterForm, letterForms, PERSIAN_LETTERS, PersianLetter, persianWordsFor } from '../services/persianAlphabet';
+
+interface PersianAlphabetRoomProps {
+  categories: Category[];
+  onSpeak: (text: string, lang: SpeechLang) => void;
+  onOpenWord: (word: LetterWord) => void;
+  onBack: () => void;
+}
+
+const FORMS: LetterForm[] = ['isolated', 'initial', 'medial', 'final'];
+
+/** الفبا: the 32 Persian letters, each with its four written forms and a word that starts with it. */
+export const PersianAlphabetRoom: React.FC<PersianAlphabetRoomProps> = ({ categories, onSpeak, onOpenWord, onBack }) => {
+  const [selected, setSelected] = useState<PersianLetter | null>(null);
+  const words = selected ? persianWordsFor(selected.letter, categories) : [];
+  const forms = selected ? letterForms(selected) : null;
+
+  const open = (letter: PersianLetter) => {
+    setSelected(letter);
+    onSpeak(letter.name, 'fa');
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden pb-[var(--safe-bottom)] bg-slate-50">
+      <div className="bg-[#0EA5E9] pt-[calc(var(--safe-top)+0.5rem)] pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+        <button onClick={onBack} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
+        <h1 className="text-2xl font-bold text-white" dir="rtl">الفبا</h1>
+        <div className="w-11"></div>
+      </div>
+      <div dir="rtl" className="flex-1 p-5 grid grid-cols-3 gap-4 content-start overflow-y-auto scroll-container hide-scrollbar">
+        {PERSIAN_LETTERS.map(letter => (
+          <button key={letter.letter} onClick={() => open(letter)} className="aspect-square bg-white rounded-[2rem] shadow-xl border-b-[10px] border-slate-200 flex items-center justify-center text-6xl font-bold text-slate-700 active:translate-y-2 active:border-b-0 transition-all">
+            {letter.letter}
+          </button>
+        ))}
+      </div>
+
+      {selected && forms && (
+        <div className="fixed inset-0 z-[140] bg-slate-50 flex flex-col pt-[var(--safe-top)] pb-[var(--safe-bottom)]" dir="rtl">
+          <div className="bg-[#0EA5E9] pt-2 pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+            <button onClick={() => setSelected(null)} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">✕</button>
+            <h1 className="text-2xl font-bold text-white">حرف {selected.name}</h1>
+            <button onClick={() => onSpeak(selected.name, 'fa')} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🔊</button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-5 space-y-5 scroll-container hide-scrollbar">
+            <div className="grid grid-cols-4 gap-3">
+              {FORMS.map(form => (
+                <div key={form} className="bg-white rounded-[1.5rem] shadow-md py-4 flex flex-col items-center">
+                  <span className="text-5xl font-bold text-slate-700 leading-tight">{forms[form]}</span>
+                  <span className="mt-2 text-xs font-bold text-slate-400">{FORM_LABELS[form]}</span>
+                </div>
+              ))}
+            </div>
+
+            <h2 className="text-sm font-bold text-slate-400 px-2">کلمه‌هایی که با «{selected.letter}» شروع می‌شوند</h2>
+            <div className="grid grid-cols-2 gap-4">
+              {words.map(word => (
+                <div key={word.item.id} className="bg-white rounded-[2rem] shadow-md p-4 flex flex-col items-center">
+                  <button onClick={() => onSpeak(translationOf(word.item, 'fa'), 'fa')} className="flex flex-col items-center active:scale-95 transition-all">
+                    <span className="text-5xl">{word.item.emoji}</span>
+                    <span className="mt-2 text-xl font-bold text-slate-600">{translationOf(word.item, 'fa')}</span>
+                  </button>
+                  <button onClick={() => onOpenWord(word)} dir="ltr" className="mt-2 text-[10px] font-black text-slate-300 uppercase">{word.item.name} ➔</button>
+                </div>
+              ))}
+              {words.length === 0 && selected.example && (
+                <button onClick={() => onSpeak(selected.example!.word, 'fa')} className="bg-white rounded-[2rem] shadow-md p-4 flex flex-col items-center active:scale-95 transition-all">
+                  <span className="text-5xl">{selected.example.emoji}</span>
+                  <span className="mt-2 text-xl font-bold text-slate-600">{selected.example.word}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Category } from '../types';
+import { LetterCase } from '../services/tracing';
+import { letterSoundPhrase, LetterWord, wordsForLetter } from '../services/phonics';
+
+interface PhonicsPanelProps {
+  letter: string;
+  categories: Category[];
+  mastered: Partial<Record<LetterCase, number>>;
+  onSpeak: (text: string) => void;
+  onTrace: () => void;
+  onPlay: () => void;
+  onOpenWord: (word: LetterWord) => void;
+  onClose: () => void;
+}
+
+/** One letter's page: its name and sound, tracing, and every word in the app that starts with it. */
+export const PhonicsPanel: React.FC<PhonicsPanelProps> = ({ letter, categories, mastered, onSpeak, onTrace, onPlay, onOpenWord, onClose }) => {
+  const words = wordsForLetter(letter, categories);
+
+  return (
+    <div className="fixed inset-0 z-[140] bg-slate-50 flex flex-col pt-[var(--safe-top)] pb-[var(--safe-bottom)]">
+      <div className="bg-[#22C55E] pt-2 pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+        <button onClick={onClose} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">✕</button>
+        <h1 className="text-xl font-kids text-white uppercase">Letter {letter}</h1>
+        <div className="w-11"></div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-5 scroll-container hide-scrollbar">
+        <div className="bg-white rounded-[2.5rem] shadow-xl p-6 flex flex-col items-center space-y-4">
+          <span className="text-8xl font-kids text-slate-700 leading-none">{letter}{letter.toLowerCase()}</span>
+          <div className="grid grid-cols-2 gap-3 w-full">
+            <button onClick={() => onSpeak(letter)} className="bg-indigo-50 text-indigo-600 py-4 rounded-[2rem] font-black active:scale-95">🔊 NAME</button>
+            <button onClick={() => onSpeak(letterSoundPhrase(letter))} className="bg-amber-50 text-amber-600 py-4 rounded-[2rem] font-black active:scale-95">🗣️ SOUND</button>
+            <button onClick={onTrace} className="bg-green-50 text-green-600 py-4 rounded-[2rem] font-black active:scale-95">
+              ✏️ TRACE {mastered.upper ? '⭐' : ''}{mastered.lower ? '⭐' : ''}
+            </button>
+            <button onClick={onPlay} disabled={words.length === 0} className="bg-orange-50 text-orange-600 disabled:opacity-40 py-4 rounded-[2rem] font-black active:scale-95">🔠 PLAY</button>
+          </div>
+        </div>
+
+        <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest px-2">Words that start with {letter}</h2>
+        {words.length === 0 && <p className="text-sm text-slate-300 font-bold px-2">No words with {letter} yet.</p>}
+        <div className="grid grid-cols-2 gap-4">
+          {words.map(word => (
+            <button key={word.item.id} onClick={() => onOpenWord(word)} className="bg-white rounded-[2rem] shadow-md p-4 flex flex-col items-center active:scale-95 transition-all">
+              <span className="text-5xl">{word.item.emoji}</span>
+              <span className="mt-2 font-kids text-lg text-slate-600">
+                <span className="text-green-500">{word.item.name.charAt(0)}</span>{word.item.name.slice(1)}
+              </span>
+              <span className="text-[10px] font-black text-slate-300 uppercase">{word.category.icon} {word.category.name}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
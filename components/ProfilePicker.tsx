@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { AgeBand, AGE_BANDS, ChildProfile, PROFILE_AVATARS, profileStore } from '../services/profiles';
+
+interface ProfilePickerProps {
+  onSelect: (profile: ChildProfile) => void;
+}
+
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({ onSelect }) => {
+  const [profiles, setProfiles] = useState<ChildProfile[]>(() => profileStore.list());
+  const [isCreating, setIsCreating] = useState(profiles.length === 0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState(PROFILE_AVATARS[0]);
+  const [ageBand, setAgeBand] = useState<AgeBand>('5-7');
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    const profile = profileStore.create(name, avatar, ageBand);
+    setProfiles(profileStore.list());
+    setName('');
+    setIsCreating(false);
+    onSelect(profile);
+  };
+
+  const handleDelete = (profile: ChildProfile) => {
+    if (!confirm(`Delete ${profile.name} and all of their progress?`)) return;
+    profileStore.remove(profile.id);
+    const rest = profileStore.list();
+    setProfiles(rest);
+    if (rest.length === 0) setIsCreating(true);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col bg-slate-50 overflow-hidden pb-[var(--safe-bottom)]">
+      <div className="bg-[#FFD233] pt-[calc(var(--safe-top)+1.5rem)] pb-8 px-6 rounded-b-[3rem] shadow-xl flex flex-col items-center flex-shrink-0 z-10">
+        <h1 className="text-4xl font-kids text-white uppercase tracking-tighter drop-shadow-md">KIDS JOY</h1>
+        <p className="text-white/80 font-bold text-[10px] mt-1 tracking-[0.2em] uppercase">Who is playing?</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6 scroll-container hide-scrollbar">
+        {!isCreating ? (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              {profiles.map(p => (
+                <div key={p.id} className="relative">
+                  <button onClick={() => onSelect(p)} className="w-full aspect-square bg-white rounded-[2.5rem] shadow-xl border-b-8 border-slate-200 flex flex-col items-center justify-center btn-tap">
+                    <span className="text-6xl">{p.avatar}</span>
+                    <span className="text-lg font-kids text-indigo-700 mt-2 truncate w-full px-2 text-center">{p.name}</span>
+                    <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">Age {p.ageBand}</span>
+                  </button>
+                  {isEditing && (
+                    <button onClick={() => handleDelete(p)} className="absolute -top-2 -right-2 w-9 h-9 bg-rose-500 text-white rounded-full shadow-lg flex items-center justify-center">✕</button>
+                  )}
+                </div>
+              ))}
+              <button onClick={() => setIsCreating(true)} className="aspect-square bg-white/60 rounded-[2.5rem] border-4 border-dashed border-slate-200 flex flex-col items-center justify-center btn-tap">
+                <span className="text-5xl">➕</span>
+                <span className="text-xs font-black text-slate-400 uppercase mt-2">Add Kid</span>
+              </button>
+            </div>
+            <button onClick={() => setIsEditing(e => !e)} className="w-full text-[10px] font-bold text-indigo-500 underline uppercase">
+              {isEditing ? 'Done' : 'Manage profiles'}
+            </button>
+          </>
+        ) : (
+          <div className="bg-white rounded-[2.5rem] shadow-xl p-6 space-y-5">
+            <div className="text-center text-6xl">{avatar}</div>
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="Name" maxLength={20}
+              className="w-full bg-slate-50 rounded-2xl px-5 py-4 font-kids text-xl text-indigo-700 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+            <div className="grid grid-cols-5 gap-2">
+              {PROFILE_AVATARS.map(a => (
+                <button key={a} onClick={() => setAvatar(a)} className={`aspect-square rounded-2xl text-3xl flex items-center justify-center ${avatar === a ? 'bg-indigo-100 ring-4 ring-indigo-300' : 'bg-slate-50'}`}>{a}</button>
+              ))}
+            </div>
+            <div className="flex space-x-2">
+              {AGE_BANDS.map(band => (
+                <button key={band} onClick={() => setAgeBand(band)} className={`flex-1 py-3 rounded-2xl text-xs font-black ${ageBand === band ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>Age {band}</button>
+              ))}
+            </div>
+            <div className="flex space-x-3">
+              {profiles.length > 0 && (
+                <button onClick={() => setIsCreating(false)} className="flex-1 bg-slate-100 py-4 rounded-3xl font-bold text-slate-400">CANCEL</button>
+              )}
+              <button onClick={handleCreate} disabled={!name.trim()} className="flex-1 bg-indigo-600 text-white py-4 rounded-3xl font-bold shadow-xl disabled:opacity-40">LET'S GO!</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { HomeLang, Item } from '../types';
+import { imageStorage } from '../services/storage';
+import { reviewScheduler } from '../services/scheduler';
+import { learningLog } from '../services/learningLog';
+import { LANGUAGES, translationOf } from '../services/languages';
+
+interface ReviewDeckProps {
+  items: Item[];
+  homeLang: HomeLang;
+  onSpeak: (text: string) => void;
+  onBack: () => void;
+}
+
+export const ReviewDeck: React.FC<ReviewDeckProps> = ({ items, homeLang, onSpeak, onBack }) => {
+  const [index, setIndex] = useState(0);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [itemImage, setItemImage] = useState<string | null>(null);
+  const [remembered, setRemembered] = useState(0);
+
+  const item = items[index];
+
+  useEffect(() => {
+    if (!item) return;
+    setShowTranslation(false);
+    imageStorage.get(item.id).then(setItemImage);
+    onSpeak(item.name);
+  }, [item]);
+
+  const answer = async (correct: boolean) => {
+    if (!item) return;
+    learningLog.record('answered', item.id, { gameType: 'Review', correct });
+    await reviewScheduler.record(item.id, correct);
+    if (correct) setRemembered(r => r + 1);
+    setIndex(i => i + 1);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden bg-slate-50 pb-[var(--safe-bottom)]">
+      <div className="bg-[#A855F7] pt-[calc(var(--safe-top)+0.5rem)] pb-4 px-6 rounded-b-[2rem] shadow-sm flex items-center justify-between flex-shrink-0">
+        <button onClick={onBack} className="bg-white/40 w-11 h-11 rounded-full text-white flex items-center justify-center text-xl shadow-inner active:scale-90">🏠</button>
+        <h1 className="text-xl font-kids text-white uppercase">Review Today</h1>
+        <div className="w-11 text-right text-white font-black text-xs">{Math.min(index + 1, items.length)}/{items.length}</div>
+      </div>
+
+      {!item ? (
+        <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-in zoom-in p-6">
+          <span className="text-7xl">🌟</span>
+          <p className="text-2xl font-kids text-indigo-700 uppercase text-center">
+            {items.length === 0 ? 'Nothing to review today!' : `You remembered ${remembered} of ${items.length}!`}
+          </p>
+          <button onClick={onBack} className="bg-indigo-600 text-white px-10 py-4 rounded-3xl font-bold active:scale-95 transition-all">DONE</button>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col items-center justify-center p-6">
+          <div onClick={() => setShowTranslation(!showTranslation)} className={`w-full max-w-[320px] aspect-square rounded-[4rem] shadow-2xl flex flex-col items-center justify-center border-[10px] transition-all duration-500 ${showTranslation ? 'bg-indigo-600 border-indigo-400' : 'bg-white border-white'}`}>
+            {!showTranslation ? (
+              <div className="flex flex-col items-center justify-center p-8 w-full h-full">
+                <div className="flex-1 w-full flex items-center justify-center overflow-hidden mb-4">
+                  {itemImage
+                    ? <img src={itemImage} alt={item.name} className="max-w-full max-h-full object-contain rounded-3xl" />
+                    : <span className="text-[120px] drop-shadow-xl">{item.emoji}</span>}
+                </div>
+                <span className="text-3xl font-kids text-indigo-700 uppercase tracking-wider">{item.name}</span>
+              </div>
+            ) : (
+              <h2 className="text-6xl font-kids text-white animate-in zoom-in" dir={LANGUAGES[homeLang].dir}>{translationOf(item, homeLang) || item.name}</h2>
+            )}
+          </div>
+
+          <div className="flex w-full max-w-[320px] space-x-4 mt-8">
+            <button onClick={() => answer(false)} className="flex-1 bg-white py-5 rounded-[2.5rem] font-black text-rose-400 text-lg shadow-md border-b-4 border-slate-100 active:scale-95 transition-all">🔁 AGAIN</button>
+            <button onClick={() => answer(true)} className="flex-1 bg-green-500 py-5 rounded-[2.5rem] font-black text-white text-lg shadow-xl active:scale-95 transition-all">✓ GOT IT</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Item, SpeechLang } from '../types';
+import { speakText } from '../services/speech';
+import { translationOf } from '../services/languages';
+import { getRecognizer, gradePronunciation, PronunciationGrade, scorePronunciation } from '../services/pronunciation';
+
+interface SayItPanelProps {
+  item: Item;
+  lang?: SpeechLang;
+  /** Called with the word that was asked; never called once the card has changed. */
+  onResult: (grade: PronunciationGrade, item: Item) => void;
+}
+
+type SayItStatus = 'idle' | 'playing' | 'listening' | 'graded' | 'error';
+
+/** Plays the word, listens to the child repeat it and shows a graded, friendly result. */
+export const SayItPanel: React.FC<SayItPanelProps> = ({ item, lang = 'en', onResult }) => {
+  const [status, setStatus] = useState<SayItStatus>('idle');
+  const [grade, setGrade] = useState<PronunciationGrade | null>(null);
+  const recognizer = getRecognizer();
+  const word = lang === 'en' ? item.name : translationOf(item, lang);
+  // با عوض شدن کارت زیاد می‌شود تا نتیجه‌ی کلمه‌ی قبلی دور ریخته شود
+  const attempt = useRef(0);
+
+  useEffect(() => {
+    setStatus('idle');
+    setGrade(null);
+    return () => {
+      attempt.current += 1;
+      recognizer.stop();
+    };
+  }, [item, lang]);
+
+  const start = async () => {
+    if (status === 'playing' || status === 'listening') return;
+    const asked = item;
+    const current = attempt.current;
+    const cancelled = () => attempt.current !== current;
+    setGrade(null);
+    try {
+      setStatus('playing');
+      await speakText(word, lang);
+      if (cancelled()) return;
+      setStatus('listening');
+      const heard = await recognizer.listen(lang);
+      if (cancelled()) return;
+      const next = gradePronunciation(scorePronunciation(word, heard));
+      setGrade(next);
+      setStatus('graded');
+      onResult(next, asked);
+    } catch (e) {
+      if (cancelled()) return;
+      console.warn("Speech recognition failed", e);
+      setStatus('error');
+    }
+  };
+
+  if (!recognizer.isSupported()) {
+    return <p className="text-xs font-black text-slate-400 uppercase text-center">This browser can't listen yet 🙉</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <button onClick={start} disabled={status === 'playing' || status === 'listening'}
+        className={`px-8 py-4 rounded-[2rem] font-black text-white text-lg shadow-xl active:scale-95 transition-all ${status === 'listening' ? 'bg-rose-500 animate-pulse' : 'bg-emerald-500'}`}>
+        {status === 'playing' ? '👂 LISTEN…' : status === 'listening' ? '🎤 YOUR TURN!' : '🎤 SAY IT!'}
+      </button>
+      <div className="h-12 flex flex-col items-center justify-center">
+        {status === 'graded' && grade && (
+          <div className="flex flex-col items-center animate-in zoom-in">
+            <span className="text-2xl">{'⭐'.repeat(grade.stars)}{'☆'.repeat(3 - grade.stars)}</span>
+            <span className="text-sm font-kids text-indigo-700 uppercase">{grade.message}</span>
+          </div>
+        )}
+        {status === 'error' && <span className="text-xs font-black text-slate-400 uppercase">Oops! Let's try again.</span>}
+      </div>
+    </div>
+  );
+};
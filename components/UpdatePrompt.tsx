@@ -0,0 +1,21 @@
+import React from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+
+export const UpdatePrompt: React.FC = () => {
+  const { needRefresh: [needRefresh, setNeedRefresh], updateServiceWorker } = useRegisterSW();
+
+  if (!needRefresh) return null;
+
+  return (
+    <div className="fixed bottom-[calc(var(--safe-bottom)+1rem)] inset-x-4 z-[200] bg-indigo-600 text-white rounded-[2rem] shadow-2xl p-4 flex items-center justify-between animate-in slide-in-from-bottom">
+      <div className="flex items-center space-x-3">
+        <span className="text-3xl">✨</span>
+        <p className="font-kids text-sm">A new version is ready!</p>
+      </div>
+      <div className="flex space-x-2">
+        <button onClick={() => setNeedRefresh(false)} className="px-3 py-2 rounded-full text-[10px] font-black uppercase text-white/70">Later</button>
+        <button onClick={() => updateServiceWorker(true)} className="bg-white text-indigo-600 px-4 py-2 rounded-full text-[10px] font-black uppercase">Update</button>
+      </div>
+    </div>
+  );
+};
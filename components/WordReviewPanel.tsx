@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Category } from '../types';
+import { toDynamicItem } from '../services/ai';
+import { GeneratedItem } from '../services/aiProvider';
+import { isInScript, LANGUAGES } from '../services/languages';
+import { blocklist, isSingleEmoji, REJECTION_LABELS, ReviewEntry, reviewQueue } from '../services/vocabularyFilter';
+
+interface WordReviewPanelProps {
+  categories: Category[];
+  onCategoriesChange: (categories: Category[]) => void;
+}
+
+/**
+ * AI words the safety filter held back, plus the parent's own blocked words.
+ * A word with a missing or wrong translation or emoji can only be approved
+ * once the parent has typed a valid one.
+ */
+export const WordReviewPanel: React.FC<WordReviewPanelProps> = ({ categories, onCategoriesChange }) => {
+  const [entries, setEntries] = useState<ReviewEntry[]>(() => reviewQueue.list());
+  const [blockedText, setBlockedText] = useState(() => blocklist.loadCustom().join(', '));
+  const [saved, setSaved] = useState(false);
+  const [fixes, setFixes] = useState<Record<string, Partial<GeneratedItem>>>({});
+
+  const fixedItem = (entry: ReviewEntry): GeneratedItem => ({ ...entry.item, ...fixes[entry.id] });
+  const fix = (entry: ReviewEntry, field: 'translation' | 'emoji', value: string) =>
+    setFixes(prev => ({ ...prev, [entry.id]: { ...prev[entry.id], [field]: value } }));
+
+  const resolve = (entry: ReviewEntry, approve: boolean) => {
+    const approved = fixedItem(entry);
+    if (approve && !(isInScript(approved.translation, entry.lang) && isSingleEmoji(approved.emoji))) return;
+    const taken = reviewQueue.take(entry.id);
+    setEntries(reviewQueue.list());
+    if (!approve || !taken) return;
+    const category = categories.find(c => c.id === taken.categoryId);
+    if (!category) return;
+    const item = toDynamicItem(category.name, { ...approved, translation: approved.translation.trim(), emoji: approved.emoji.trim() }, category.items.length, taken.lang);
+    onCategoriesChange(categories.map(c => (c.id === category.id ? { ...c, items: [...c.items, item] } : c)));
+  };
+
+  const saveBlocklist = () => {
+    blocklist.saveCustom(blockedText.split(/[,\n]/));
+    setBlockedText(blocklist.loadCustom().join(', '));
+    setSaved(true);
+  };
+
+  return (
+    <section className="bg-white rounded-[2rem] shadow-xl p-5 space-y-3">
+      <h2 className="text-xs font-black text-slate-400 uppercase tracking-widest">Words waiting for review</h2>
+      {entries.length === 0 && <p className="text-xs text-slate-300">Nothing to check.</p>}
+      {entries.map(entry => {
+        const item = fixedItem(entry);
+        const translationOk = isInScript(item.translation, entry.lang);
+        const emojiOk = isSingleEmoji(item.emoji);
+        // فیلدها از روی مقدار اولیه نشان داده می‌شوند تا هنگام تایپ ناپدید نشوند
+        const askTranslation = !isInScript(entry.item.translation, entry.lang);
+        const askEmoji = !isSingleEmoji(entry.item.emoji);
+        return (
+          <div key={entry.id} className="space-y-2">
+            <div className="flex items-center space-x-3">
+              <span className="text-2xl w-8 text-center">{emojiOk ? item.emoji : '❔'}</span>
+              <div className="flex-1 min-w-0">
+                <p className="font-bold text-slate-600 text-sm truncate">{entry.item.name} <span className="text-slate-400" dir={LANGUAGES[entry.lang].dir}>{item.translation}</span></p>
+                <p className="text-[10px] font-bold text-amber-500 uppercase">{REJECTION_LABELS[entry.reason]} · {categories.find(c => c.id === entry.categoryId)?.name ?? '—'}</p>
+              </div>
+              <button onClick={() => resolve(entry, false)} className="w-9 h-9 rounded-full bg-rose-50 text-rose-500">✕</button>
+              <button onClick={() => resolve(entry, true)} disabled={!translationOk || !emojiOk} className="w-9 h-9 rounded-full bg-green-50 text-green-600 disabled:opacity-30">✓</button>
+            </div>
+            {(askTranslation || askEmoji) && (
+              <div className="flex space-x-2 pl-11">
+                {askTranslation && (
+                  <input value={item.translation} onChange={e => fix(entry, 'translation', e.target.value)} placeholder={LANGUAGES[entry.lang].nativeName} maxLength={30} dir={LANGUAGES[entry.lang].dir}
+                    className={`flex-1 min-w-0 bg-slate-50 rounded-2xl px-4 py-2 text-sm outline-none border-2 ${translationOk ? 'border-green-200' : 'border-slate-100'} focus:border-indigo-300`} />
+                )}
+                {askEmoji && (
+                  <input value={item.emoji} onChange={e => fix(entry, 'emoji', e.target.value)} placeholder="Emoji" maxLength={8}
+                    className={`w-20 bg-slate-50 rounded-2xl px-4 py-2 text-sm text-center outline-none border-2 ${emojiOk ? 'border-green-200' : 'border-slate-100'} focus:border-indigo-300`} />
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="border-t border-slate-100 pt-4 space-y-2">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Extra blocked words</p>
+        <textarea value={blockedText} onChange={e => { setBlockedText(e.target.value); setSaved(false); }} rows={2} placeholder="e.g. clown, needle"
+          className="w-full bg-slate-50 rounded-2xl px-4 py-3 text-sm text-slate-600 outline-none border-2 border-slate-100 focus:border-indigo-300" />
+        <button onClick={saveBlocklist} className="w-full bg-slate-700 text-white py-2.5 rounded-2xl font-bold text-xs">{saved ? '✓ SAVED' : 'SAVE BLOCKED WORDS'}</button>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react';
+import { Category, Item } from '../../types';
+import { letterSoundPhrase, startingLetter } from '../../services/phonics';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+
+const SOUND_ROUNDS = 5;
+const CHOICES = 3;
+
+interface SoundRound {
+  letter: string;
+  answer: Item;
+  choices: Item[];
+}
+
+// گزینه‌های اشتباه با حرف‌های دیگری شروع می‌شوند و با هم هم‌حرف نیستند
+const buildRounds = (category: Category, categories: Category[]): SoundRound[] => {
+  const targets = shuffle(category.items.filter(it => startingLetter(it.name)));
+  const pool = categories.flatMap(c => c.items).filter(it => startingLetter(it.name));
+  if (targets.length === 0) return [];
+  return Array.from({ length: SOUND_ROUNDS }, (_, i) => {
+    const answer = targets[i % targets.length];
+    const letter = startingLetter(answer.name);
+    const used = new Set([letter]);
+    // هر دور از نو بر زده می‌شود تا گزینه‌های اشتباه تکرار نشوند
+    const distractors = shuffle(pool).filter(it => {
+      const first = startingLetter(it.name);
+      if (used.has(first)) return false;
+      used.add(first);
+      return true;
+    }).slice(0, CHOICES - 1);
+    return { letter, answer, choices: shuffle([answer, ...distractors]) };
+  }).filter(round => round.choices.length === CHOICES);
+};
+
+/** Shows a letter, plays its sound and asks which picture starts with it. */
+export const BeginningSoundGame: React.FC<GameModuleProps> = ({ category, categories, imageCache, onSpeak, onAnswer, onRound, onComplete }) => {
+  const [rounds] = useState<SoundRound[]>(() => buildRounds(category, categories));
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const round = rounds[roundIndex];
+
+  useEffect(() => {
+    if (round) {
+      onRound(roundIndex + 1, rounds.length);
+      onSpeak(letterSoundPhrase(round.letter));
+    } else if (rounds.length > 0) {
+      onComplete({ correct: correctCount, total: rounds.length });
+    }
+  }, [roundIndex]);
+
+  const handlePick = (choice: Item) => {
+    if (!round || picked) return;
+    setPicked(choice.id);
+    const correct = choice.id === round.answer.id;
+    onAnswer(round.answer, correct);
+    if (correct) {
+      setCorrectCount(c => c + 1);
+    } else {
+      if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+      onSpeak(round.answer.name);
+    }
+    setTimeout(() => {
+      setPicked(null);
+      setRoundIndex(i => i + 1);
+    }, 1500);
+  };
+
+  if (rounds.length === 0) {
+    return <p className="text-center font-kids text-slate-400 uppercase">No words to play with yet!</p>;
+  }
+
+  if (!round) return null;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-8 animate-in zoom-in w-full px-4">
+      <button onClick={() => onSpeak(letterSoundPhrase(round.letter))} className="w-36 h-36 bg-white rounded-[2.5rem] shadow-card flex flex-col items-center justify-center active:scale-95 transition-all">
+        <span className="text-7xl font-kids text-green-500 leading-none">{round.letter}{round.letter.toLowerCase()}</span>
+        <span className="text-xl mt-1">🔊</span>
+      </button>
+      <div className="grid grid-cols-3 gap-4 w-full max-w-sm">
+        {round.choices.map(choice => {
+          const isAnswer = choice.id === round.answer.id;
+          const state = !picked ? 'bg-white border-indigo-200'
+            : isAnswer ? 'bg-green-500 border-green-700 scale-105'
+            : picked === choice.id ? 'bg-red-400 border-red-600' : 'bg-white border-slate-100 opacity-50';
+          return (
+            <button key={choice.id} onClick={() => handlePick(choice)} className={`aspect-square p-3 rounded-3xl shadow-xl border-b-4 flex flex-col items-center justify-center transition-all ${state}`}>
+              <ItemVisual item={choice} imageCache={imageCache} className="text-5xl" />
+              {picked && <span className={`mt-1 font-kids text-xs uppercase ${isAnswer ? 'text-white' : 'text-slate-400'}`}>{choice.name}</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { getFunFact } from '../../services/ai';
+import { factStorage } from '../../services/storage';
+import { GameModuleProps, ItemVisual } from './shared';
+
+export const FlashcardsGame: React.FC<GameModuleProps> = ({ category, imageCache, onSpeak, onRound, onComplete }) => {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [funFact, setFunFact] = useState<string>('');
+
+  const current = category.items[currentIndex];
+
+  useEffect(() => {
+    if (!current) return;
+    onRound(currentIndex + 1, category.items.length);
+    onSpeak(current.name);
+    setFunFact('');
+    let cancelled = false;
+    const loadFact = async () => {
+      const cached = await factStorage.get(current.id);
+      if (cached) return cached;
+      const fact = await getFunFact(current.name, category.name);
+      await factStorage.set(current.id, fact);
+      return fact;
+    };
+    loadFact()
+      .then(fact => { if (!cancelled) setFunFact(fact); })
+      .catch(() => { if (!cancelled) setFunFact("Let's learn more about this!"); });
+    return () => { cancelled = true; };
+  }, [currentIndex, category]);
+
+  const handleNext = () => {
+    if (currentIndex + 1 >= category.items.length) {
+      onComplete({ correct: category.items.length, total: category.items.length, detail: 'cards seen' });
+      return;
+    }
+    setCurrentIndex(i => i + 1);
+  };
+
+  if (!current) return null;
+
+  return (
+    <div className="text-center">
+      <div className="flex flex-col items-center">
+        <div className="w-48 h-48 mb-8">
+          <ItemVisual item={current} imageCache={imageCache} className="text-9xl" />
+        </div>
+        <div className="bg-white p-6 rounded-3xl shadow-xl mb-8">
+          <p className="text-2xl font-kids text-indigo-700 uppercase mb-2">{current.name}</p>
+          <p className="text-sm text-slate-500 italic">"{funFact}"</p>
+        </div>
+        <button onClick={handleNext} className="bg-indigo-600 text-white px-10 py-4 rounded-3xl font-bold active:scale-95 transition-all">NEXT ONE!</button>
+      </div>
+    </div>
+  );
+};
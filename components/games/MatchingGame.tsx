@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Item } from '../../types';
+import { profileKey } from '../../services/profiles';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+import { LANGUAGES, translationOf } from '../../services/languages';
+
+const MATCH_PAIRS = 4;
+const DRAG_THRESHOLD = 8;
+
+type WordSide = 'english' | 'home';
+
+interface DragState {
+  itemId: string;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  moved: boolean;
+}
+
+// قبلاً به جای 'home' مقدار 'persian' ذخیره می‌شد
+const loadSide = (): WordSide =>
+  ['home', 'persian'].includes(localStorage.getItem(profileKey('matching_side')) ?? '') ? 'home' : 'english';
+
+export const MatchingGame: React.FC<GameModuleProps> = ({ category, imageCache, homeLang, onSpeak, onAnswer, onRound, onComplete }) => {
+  const [wordSide, setWordSide] = useState<WordSide>(loadSide);
+  const [showOptions, setShowOptions] = useState(false);
+  const [pictures] = useState<Item[]>(() => shuffle(category.items).slice(0, MATCH_PAIRS));
+  const [words] = useState<Item[]>(() => shuffle(pictures));
+  const [matched, setMatched] = useState<string[]>([]);
+  const [mistakes, setMistakes] = useState(0);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [wrongId, setWrongId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    onRound(matched.length, pictures.length);
+    if (pictures.length > 0 && matched.length === pictures.length) {
+      onComplete({ correct: pictures.length, total: pictures.length + mistakes });
+    }
+  }, [matched]);
+
+  const changeSide = (side: WordSide) => {
+    setWordSide(side);
+    localStorage.setItem(profileKey('matching_side'), side);
+    setShowOptions(false);
+  };
+
+  const tryMatch = (pictureId: string, wordId: string) => {
+    setSelected(null);
+    const picture = pictures.find(p => p.id === pictureId)!;
+    if (pictureId === wordId) {
+      setMatched(m => [...m, pictureId]);
+      onAnswer(picture, true);
+    } else {
+      onAnswer(picture, false);
+      setWrongId(wordId);
+      setMistakes(m => m + 1);
+      if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+      setTimeout(() => setWrongId(null), 700);
+    }
+  };
+
+  const handleWordTap = (item: Item) => {
+    if (matched.includes(item.id)) return;
+    if (selected) tryMatch(selected, item.id);
+  };
+
+  // کشیدن با انگشت: رها کردن روی یک کلمه را با elementFromPoint پیدا می‌کنیم
+  useEffect(() => {
+    if (!drag) return;
+    const onMove = (e: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const moved = current.moved || Math.hypot(e.clientX - current.startX, e.clientY - current.startY) > DRAG_THRESHOLD;
+      const next = { ...current, x: e.clientX, y: e.clientY, moved };
+      dragRef.current = next;
+      setDrag(next);
+    };
+    const onUp = (e: PointerEvent) => {
+      const current = dragRef.current;
+      dragRef.current = null;
+      setDrag(null);
+      if (!current) return;
+      if (!current.moved) {
+        setSelected(s => (s === current.itemId ? null : current.itemId));
+        return;
+      }
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest('[data-match-word]');
+      const wordId = target?.getAttribute('data-match-word');
+      if (wordId && !matched.includes(wordId)) tryMatch(current.itemId, wordId);
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    window.addEventListener('pointercancel', onUp);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+      window.removeEventListener('pointercancel', onUp);
+    };
+  }, [drag !== null, matched]);
+
+  const handlePicturePointerDown = (e: React.PointerEvent, item: Item) => {
+    if (matched.includes(item.id)) return;
+    onSpeak(item.name);
+    const start = { itemId: item.id, startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY, moved: false };
+    dragRef.current = start;
+    setDrag(start);
+  };
+
+  const dragItem = drag?.moved ? pictures.find(p => p.id === drag.itemId) : undefined;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-4 w-full animate-in zoom-in">
+      <div className="flex w-full max-w-sm justify-end relative">
+        <button onClick={() => setShowOptions(o => !o)} className="px-3 py-1.5 rounded-full text-xs font-black bg-white border text-slate-500">⚙️ {wordSide === 'english' ? 'ABC' : LANGUAGES[homeLang].shortName}</button>
+        {showOptions && (
+          <div className="absolute top-10 right-0 bg-white rounded-2xl shadow-2xl p-3 z-30 space-y-2 w-44">
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Parents: words in</p>
+            <button onClick={() => changeSide('english')} className={`w-full py-2 rounded-xl text-xs font-black ${wordSide === 'english' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>English</button>
+            <button onClick={() => changeSide('home')} className={`w-full py-2 rounded-xl text-xs font-black ${wordSide === 'home' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500'}`}>{LANGUAGES[homeLang].nativeName}</button>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 w-full max-w-sm">
+        <div className="space-y-3">
+          {pictures.map(item => {
+            const done = matched.includes(item.id);
+            return (
+              <div key={item.id} onPointerDown={e => handlePicturePointerDown(e, item)} style={{ touchAction: 'none' }}
+                className={`h-20 p-2 rounded-2xl shadow-lg flex items-center justify-center transition-all border-b-4 ${done ? 'bg-green-100 border-green-300 opacity-60' : selected === item.id ? 'bg-indigo-100 border-indigo-400 scale-105' : 'bg-white border-indigo-100'} ${drag?.itemId === item.id && drag.moved ? 'opacity-30' : ''}`}>
+                <ItemVisual item={item} imageCache={imageCache} className="text-5xl" />
+              </div>
+            );
+          })}
+        </div>
+        <div className="space-y-3">
+          {words.map(item => {
+            const done = matched.includes(item.id);
+            return (
+              <button key={item.id} data-match-word={item.id} onClick={() => handleWordTap(item)}
+                className={`w-full h-20 rounded-2xl shadow-lg flex items-center justify-center font-kids transition-all border-b-4 ${done ? 'bg-green-500 text-white border-green-700' : wrongId === item.id ? 'bg-red-400 text-white border-red-600 animate-pulse' : 'bg-white text-indigo-700 border-indigo-100'}`}>
+                {wordSide === 'home'
+                  ? <span className="text-xl" dir={LANGUAGES[homeLang].dir}>{translationOf(item, homeLang) || item.name}</span>
+                  : <span className="text-sm uppercase">{item.name}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {dragItem && drag && (
+        <div className="fixed w-20 h-20 p-2 bg-white rounded-2xl shadow-2xl flex items-center justify-center pointer-events-none z-50" style={{ left: drag.x - 40, top: drag.y - 40 }}>
+          <ItemVisual item={dragItem} imageCache={imageCache} className="text-5xl" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Item } from '../../types';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+import { LANGUAGES, translationOf } from '../../services/languages';
+
+interface GridSize {
+  id: string;
+  label: string;
+  cols: number;
+  pairs: number;
+}
+
+export const MEMORY_GRIDS: GridSize[] = [
+  { id: 'easy', label: '2x3', cols: 3, pairs: 3 },
+  { id: 'medium', label: '3x4', cols: 4, pairs: 6 },
+  { id: 'hard', label: '4x4', cols: 4, pairs: 8 },
+];
+
+type CardFace = 'picture' | 'word';
+type WordSide = 'english' | 'home';
+
+interface MemoryCard {
+  key: string;
+  item: Item;
+  face: CardFace;
+}
+
+// هر جفت یک کارت تصویر و یک کارت کلمه است؛ اگر دسته کوچک باشد جفت‌ها کمتر می‌شوند
+const dealCards = (items: Item[], grid: GridSize): MemoryCard[] => {
+  const picked = shuffle(items).slice(0, Math.min(grid.pairs, items.length));
+  return shuffle(picked.flatMap(item => [
+    { key: `${item.id}-picture`, item, face: 'picture' as CardFace },
+    { key: `${item.id}-word`, item, face: 'word' as CardFace },
+  ]));
+};
+
+const formatTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const MemoryGame: React.FC<GameModuleProps> = ({ category, imageCache, homeLang, onSpeak, onAnswer, onRound, onComplete }) => {
+  const [grid, setGrid] = useState<GridSize>(MEMORY_GRIDS[0]);
+  const [wordSide, setWordSide] = useState<WordSide>('english');
+  const [cards, setCards] = useState<MemoryCard[]>(() => dealCards(category.items, MEMORY_GRIDS[0]));
+  const [flipped, setFlipped] = useState<string[]>([]);
+  const [matched, setMatched] = useState<string[]>([]);
+  const [moves, setMoves] = useState(0);
+  const [seconds, setSeconds] = useState(0);
+  const [started, setStarted] = useState(false);
+
+  const deal = (nextGrid: GridSize) => {
+    setGrid(nextGrid);
+    setCards(dealCards(category.items, nextGrid));
+    setFlipped([]);
+    setMatched([]);
+    setMoves(0);
+    setSeconds(0);
+    setStarted(false);
+  };
+
+  const finished = cards.length > 0 && matched.length === cards.length;
+
+  useEffect(() => {
+    const pairs = cards.length / 2;
+    onRound(matched.length / 2, pairs);
+    if (finished) onComplete({ correct: pairs, total: pairs, detail: `${moves} moves · ${formatTime(seconds)}` });
+  }, [matched, cards]);
+
+  useEffect(() => {
+    if (!started || finished) return;
+    const timer = setInterval(() => setSeconds(s => s + 1), 1000);
+    return () => clearInterval(timer);
+  }, [started, finished]);
+
+  const handleFlip = (card: MemoryCard) => {
+    if (flipped.length === 2 || flipped.includes(card.key) || matched.includes(card.key)) return;
+    if (!started) setStarted(true);
+    onSpeak(card.item.name);
+
+    const next = [...flipped, card.key];
+    setFlipped(next);
+    if (next.length < 2) return;
+
+    setMoves(m => m + 1);
+    const [first, second] = next.map(key => cards.find(c => c.key === key)!);
+    if (first.item.id === second.item.id && first.face !== second.face) {
+      setTimeout(() => {
+        setMatched(m => [...m, first.key, second.key]);
+        setFlipped([]);
+        onAnswer(first.item, true);
+      }, 600);
+    } else {
+      setTimeout(() => setFlipped([]), 1000);
+    }
+  };
+
+  const renderFace = (card: MemoryCard) => {
+    if (card.face === 'picture') {
+      return <div className="w-full h-full p-2 flex items-center justify-center"><ItemVisual item={card.item} imageCache={imageCache} className="text-4xl" /></div>;
+    }
+    return wordSide === 'home'
+      ? <span className="font-kids text-lg text-indigo-700 px-1 text-center" dir={LANGUAGES[homeLang].dir}>{translationOf(card.item, homeLang) || card.item.name}</span>
+      : <span className="font-kids text-sm text-indigo-700 uppercase px-1 text-center break-all">{card.item.name}</span>;
+  };
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-4 w-full animate-in zoom-in">
+      <div className="flex w-full max-w-sm items-center justify-between">
+        <div className="flex space-x-2">
+          {MEMORY_GRIDS.map(g => {
+            const tooBig = g.pairs > category.items.length && g.id !== MEMORY_GRIDS[0].id;
+            return (
+              <button key={g.id} disabled={tooBig} onClick={() => deal(g)} className={`px-3 py-1.5 rounded-full text-xs font-black transition-all ${grid.id === g.id ? 'bg-indigo-600 text-white shadow-lg' : 'bg-white text-slate-400 border'} ${tooBig ? 'opacity-30' : ''}`}>
+                {g.label}
+              </button>
+            );
+          })}
+        </div>
+        <button onClick={() => setWordSide(w => (w === 'english' ? 'home' : 'english'))} className="px-3 py-1.5 rounded-full text-xs font-black bg-white border text-slate-500">
+          {wordSide === 'english' ? 'ABC' : LANGUAGES[homeLang].shortName}
+        </button>
+      </div>
+
+      <p className="text-xs font-black text-slate-400 uppercase tracking-widest">{moves} moves · {formatTime(seconds)}</p>
+
+      <div className="grid gap-3 w-full max-w-sm" style={{ gridTemplateColumns: `repeat(${grid.cols}, minmax(0, 1fr))` }}>
+        {cards.map(card => {
+          const isOpen = flipped.includes(card.key) || matched.includes(card.key);
+          return (
+            <button key={card.key} onClick={() => handleFlip(card)} className={`aspect-square rounded-2xl shadow-lg flex items-center justify-center overflow-hidden transition-all duration-300 border-b-4 ${isOpen ? 'bg-white border-indigo-100' : 'bg-indigo-500 border-indigo-700 active:scale-95'} ${matched.includes(card.key) ? 'opacity-60 scale-95' : ''}`}>
+              {isOpen ? renderFace(card) : <span className="text-3xl text-white/80">❓</span>}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { Category, Item } from '../../types';
+import { CATEGORY_FAMILIES, CATEGORY_NOUNS, CATEGORY_SUBSETS } from '../../constants';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+
+const ODD_ROUNDS = 5;
+const GROUP_SIZE = 3;
+
+interface OddRound {
+  items: Item[];
+  intruder: Item;
+  intruderCategory: Category;
+}
+
+const overlaps = (a: string, b: string) => !!CATEGORY_SUBSETS[a]?.includes(b) || !!CATEGORY_SUBSETS[b]?.includes(a);
+
+const describe = (cat: Category) => CATEGORY_NOUNS[cat.id] || `from ${cat.name}`;
+
+export const explainIntruder = (intruder: Item, intruderCategory: Category, category: Category) =>
+  `${intruder.name} is ${describe(intruderCategory)}, not ${describe(category)}.`;
+
+/**
+ * Candidate intruders, most plausible first: items from sibling categories in
+ * the same family, then from anywhere else. Names already in the target
+ * category are skipped so "Orange" the colour never intrudes on Fruits, and
+ * a category never meets its own parent or sub-category (a bird is an animal).
+ */
+export const pickIntruderPool = (category: Category, categories: Category[]): { item: Item; from: Category }[] => {
+  const taken = new Set(category.items.map(it => it.name.trim().toLowerCase()));
+  const family = CATEGORY_FAMILIES.find(f => f.includes(category.id)) || [];
+  const others = categories.filter(c => c.id !== category.id && !overlaps(c.id, category.id));
+  const toPool = (cats: Category[]) =>
+    shuffle(cats.flatMap(c => c.items.filter(it => !taken.has(it.name.trim().toLowerCase())).map(item => ({ item, from: c }))));
+
+  const siblings = toPool(others.filter(c => family.includes(c.id)));
+  return siblings.length > 0 ? siblings : toPool(others);
+};
+
+const buildRounds = (category: Category, categories: Category[]): OddRound[] => {
+  const pool = pickIntruderPool(category, categories);
+  if (pool.length === 0 || category.items.length < 2) return [];
+  return Array.from({ length: ODD_ROUNDS }, (_, i) => {
+    const { item, from } = pool[i % pool.length];
+    const group = shuffle(category.items).slice(0, GROUP_SIZE);
+    return { items: shuffle([...group, item]), intruder: item, intruderCategory: from };
+  });
+};
+
+export const OddOneOutGame: React.FC<GameModuleProps> = ({ category, categories, imageCache, onSpeak, onAnswer, onRound, onComplete }) => {
+  const [rounds] = useState<OddRound[]>(() => buildRounds(category, categories));
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const round = rounds[roundIndex];
+
+  useEffect(() => {
+    if (round) onRound(roundIndex + 1, rounds.length);
+    else if (rounds.length > 0) onComplete({ correct: correctCount, total: rounds.length });
+  }, [roundIndex]);
+
+  const handlePick = (item: Item) => {
+    if (!round || picked) return;
+    setPicked(item.id);
+    const correct = item.id === round.intruder.id;
+    onAnswer(round.intruder, correct);
+    if (correct) setCorrectCount(c => c + 1);
+    else if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+    setTimeout(() => onSpeak(explainIntruder(round.intruder, round.intruderCategory, category)), 900);
+  };
+
+  const handleNext = () => {
+    setPicked(null);
+    setRoundIndex(i => i + 1);
+  };
+
+  if (rounds.length === 0) {
+    return <p className="text-center font-kids text-slate-400 uppercase">Need more words to play!</p>;
+  }
+
+  if (!round) return null;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-6 animate-in zoom-in w-full px-4">
+      <p className="text-xs font-black text-slate-400 uppercase tracking-widest">Which one does not belong?</p>
+      <div className="grid grid-cols-2 gap-4 w-full max-w-sm">
+        {round.items.map(item => {
+          const isIntruder = item.id === round.intruder.id;
+          const state = !picked ? 'bg-white border-indigo-100'
+            : isIntruder ? 'bg-green-100 border-green-500 scale-105'
+            : picked === item.id ? 'bg-red-100 border-red-400' : 'bg-white border-slate-100 opacity-50';
+          return (
+            <button key={item.id} onClick={() => handlePick(item)} className={`aspect-square p-4 rounded-[2rem] shadow-xl border-b-8 flex items-center justify-center transition-all ${state}`}>
+              <ItemVisual item={item} imageCache={imageCache} className="text-6xl" />
+            </button>
+          );
+        })}
+      </div>
+      {picked && (
+        <div className="flex flex-col items-center space-y-4 animate-in fade-in">
+          <p className="bg-white px-6 py-3 rounded-3xl shadow-xl text-center font-kids text-indigo-700">
+            {explainIntruder(round.intruder, round.intruderCategory, category)}
+          </p>
+          <button onClick={handleNext} className="bg-indigo-600 text-white px-10 py-4 rounded-3xl font-bold active:scale-95 transition-all">NEXT ONE!</button>
+        </div>
+      )}
+    </div>
+  );
+};
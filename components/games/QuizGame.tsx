@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { Item } from '../../types';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+
+export const QUIZ_ROUNDS = 5;
+const MAX_CHOICES = 4;
+
+interface QuizRound {
+  answer: Item;
+  choices: Item[];
+}
+
+// هر دور یک جواب درست و چند گزینه‌ی اشتباه از همان دسته دارد
+const buildRounds = (items: Item[]): QuizRound[] => {
+  if (items.length === 0) return [];
+  const answers: Item[] = [];
+  while (answers.length < QUIZ_ROUNDS) answers.push(...shuffle(items));
+  return answers.slice(0, QUIZ_ROUNDS).map(answer => {
+    const distractors = shuffle(items.filter(it => it.id !== answer.id)).slice(0, MAX_CHOICES - 1);
+    return { answer, choices: shuffle([answer, ...distractors]) };
+  });
+};
+
+export const QuizGame: React.FC<GameModuleProps> = ({ category, imageCache, onSpeak, onAnswer, onRound, onComplete }) => {
+  const [rounds] = useState<QuizRound[]>(() => buildRounds(category.items));
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [picked, setPicked] = useState<string | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  const round = rounds[roundIndex];
+
+  useEffect(() => {
+    if (round) onRound(roundIndex + 1, rounds.length);
+    else if (rounds.length > 0) onComplete({ correct: correctCount, total: rounds.length });
+  }, [roundIndex]);
+
+  const handlePick = (choice: Item) => {
+    if (!round || picked) return;
+    setPicked(choice.id);
+    const correct = choice.id === round.answer.id;
+    onAnswer(round.answer, correct);
+    if (correct) {
+      setCorrectCount(c => c + 1);
+    } else {
+      if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+      onSpeak(round.answer.name);
+    }
+    setTimeout(() => {
+      setPicked(null);
+      setRoundIndex(i => i + 1);
+    }, 1500);
+  };
+
+  if (rounds.length === 0) {
+    return <p className="text-center font-kids text-slate-400 uppercase">No words to play with yet!</p>;
+  }
+
+  if (!round) return null;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-8 animate-in zoom-in w-full px-4">
+      <div className="w-40 h-40 p-4 bg-white rounded-[2.5rem] shadow-card flex items-center justify-center flex-shrink-0">
+        <ItemVisual item={round.answer} imageCache={imageCache} className="text-8xl" />
+      </div>
+      <div className="grid grid-cols-2 gap-4 w-full max-w-sm">
+        {round.choices.map(choice => {
+          const isAnswer = choice.id === round.answer.id;
+          const state = !picked ? 'bg-white text-indigo-700 border-indigo-200'
+            : isAnswer ? 'bg-green-500 text-white border-green-700 scale-105'
+            : picked === choice.id ? 'bg-red-400 text-white border-red-600' : 'bg-white text-slate-300 border-slate-100';
+          return (
+            <button key={choice.id} onClick={() => handlePick(choice)} className={`py-5 rounded-3xl shadow-xl border-b-4 font-kids text-lg uppercase transition-all ${state}`}>
+              {choice.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
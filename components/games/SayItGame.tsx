@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { Item } from '../../types';
+import { PronunciationGrade } from '../../services/pronunciation';
+import { SayItPanel } from '../SayItPanel';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+
+const SAY_IT_ROUNDS = 5;
+// بعد از این تعداد تلاش ناموفق به کلمه‌ی بعدی می‌رویم تا کودک خسته نشود
+const ATTEMPTS_PER_WORD = 2;
+
+export const SayItGame: React.FC<GameModuleProps> = ({ category, imageCache, onAnswer, onRound, onComplete }) => {
+  const [words] = useState<Item[]>(() => shuffle(category.items).slice(0, SAY_IT_ROUNDS));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [attempts, setAttempts] = useState(0);
+  const [settled, setSettled] = useState(false);
+
+  const item = words[currentIndex];
+
+  useEffect(() => {
+    if (!item) return;
+    onRound(currentIndex + 1, words.length);
+    setAttempts(0);
+    setSettled(false);
+  }, [currentIndex]);
+
+  const handleNext = (solved: number) => {
+    if (currentIndex + 1 >= words.length) {
+      onComplete({ correct: solved, total: words.length });
+      return;
+    }
+    setCurrentIndex(i => i + 1);
+  };
+
+  const handleResult = (grade: PronunciationGrade) => {
+    if (settled) return;
+    const used = attempts + 1;
+    setAttempts(used);
+    if (grade.passed) {
+      const solved = correctCount + 1;
+      setCorrectCount(solved);
+      setSettled(true);
+      onAnswer(item, true);
+      setTimeout(() => handleNext(solved), 1500);
+    } else if (used >= ATTEMPTS_PER_WORD) {
+      setSettled(true);
+      onAnswer(item, false);
+      setTimeout(() => handleNext(correctCount), 1500);
+    }
+  };
+
+  if (!item) return null;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-8 animate-in zoom-in w-full px-4">
+      <div className="w-40 h-40 p-4 bg-white rounded-[2.5rem] shadow-card flex items-center justify-center flex-shrink-0">
+        <ItemVisual item={item} imageCache={imageCache} className="text-8xl" />
+      </div>
+      <span className="text-3xl font-kids text-indigo-700 uppercase tracking-wider">{item.name}</span>
+      <SayItPanel item={item} onResult={handleResult} />
+    </div>
+  );
+};
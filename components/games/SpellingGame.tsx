@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react';
+import { Item } from '../../types';
+import { GameModuleProps, ItemVisual, shuffle } from './shared';
+
+const SPELLING_ROUNDS = 5;
+
+export const SpellingGame: React.FC<GameModuleProps> = ({ category, imageCache, onAnswer, onRound, onComplete }) => {
+  const [words] = useState<Item[]>(() => shuffle(category.items).slice(0, SPELLING_ROUNDS));
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [spellingLetters, setSpellingLetters] = useState<string[]>([]);
+  const [userSpelling, setUserSpelling] = useState<string[]>([]);
+  const [spellingStatus, setSpellingStatus] = useState<'neutral' | 'correct' | 'error'>('neutral');
+  const [missed, setMissed] = useState(false);
+
+  const item = words[currentIndex];
+
+  useEffect(() => {
+    if (!item) return;
+    onRound(currentIndex + 1, words.length);
+    setSpellingLetters(shuffle(item.name.toUpperCase().split('')));
+    setUserSpelling([]);
+    setSpellingStatus('neutral');
+    setMissed(false);
+  }, [currentIndex]);
+
+  const handleNext = (solved: number) => {
+    if (currentIndex + 1 >= words.length) {
+      onComplete({ correct: solved, total: words.length });
+      return;
+    }
+    setCurrentIndex(i => i + 1);
+  };
+
+  const handleLetter = (char: string) => {
+    if (spellingStatus === 'correct') return;
+    const next = [...userSpelling, char];
+    const target = item.name.toUpperCase();
+    if (target.startsWith(next.join(''))) {
+      setUserSpelling(next);
+      if (next.join('') === target) {
+        setSpellingStatus('correct');
+        const solved = missed ? correctCount : correctCount + 1;
+        setCorrectCount(solved);
+        onAnswer(item, true);
+        setTimeout(() => handleNext(solved), 1500);
+      }
+    } else {
+      setSpellingStatus('error');
+      // فقط اولین اشتباه هر کلمه در برنامه‌ی مرور ثبت می‌شود
+      if (!missed) onAnswer(item, false);
+      setMissed(true);
+      if (navigator.vibrate) navigator.vibrate([50, 30, 50]);
+      setTimeout(() => { setUserSpelling([]); setSpellingStatus('neutral'); }, 800);
+    }
+  };
+
+  if (!item) return null;
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center space-y-8 animate-in zoom-in w-full px-4">
+      <div className="w-32 h-32 p-4 bg-white rounded-[2.5rem] shadow-card flex items-center justify-center flex-shrink-0">
+        <ItemVisual item={item} imageCache={imageCache} className="text-7xl" />
+      </div>
+
+      <div className={`flex flex-wrap justify-center gap-2 min-h-[60px] w-full border-b-4 border-dashed ${spellingStatus === 'error' ? 'border-red-200' : 'border-indigo-100'} pb-4`}>
+        {item.name.toUpperCase().split('').map((char, i) => {
+          const isFilled = userSpelling.length > i;
+          return (
+            <div key={i} className={`w-10 h-12 rounded-xl flex items-center justify-center font-bold text-xl shadow-lg transition-all ${isFilled ? 'bg-indigo-600 text-white scale-110' : 'bg-white border-2 border-gray-100 text-transparent'}`}>
+              {isFilled ? userSpelling[i] : ''}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-3 max-w-sm">
+        {spellingLetters.map((char, i) => (
+          <button key={i} onClick={() => handleLetter(char)}
+          className="w-12 h-14 bg-white rounded-2xl shadow-xl border-b-4 border-indigo-200 flex items-center justify-center text-indigo-700 font-bold text-xl active:bg-indigo-50">
+            {char}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
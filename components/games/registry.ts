@@ -0,0 +1,26 @@
+import { GameType } from '../../types';
+import { GameModule } from './shared';
+import { FlashcardsGame } from './FlashcardsGame';
+import { QuizGame } from './QuizGame';
+import { MemoryGame } from './MemoryGame';
+import { MatchingGame } from './MatchingGame';
+import { SpellingGame } from './SpellingGame';
+import { OddOneOutGame } from './OddOneOutGame';
+import { SayItGame } from './SayItGame';
+import { BeginningSoundGame } from './BeginningSoundGame';
+import { getRecognizer } from '../../services/pronunciation';
+
+// ترتیب این فهرست همان ترتیب نمایش در Arcade است
+export const GAME_REGISTRY: GameModule[] = [
+  { id: GameType.FLASHCARDS, title: 'Flashcards', icon: '🗂️', minItems: 1, Component: FlashcardsGame },
+  { id: GameType.QUIZ, title: 'Quiz', icon: '❓', minItems: 3, Component: QuizGame },
+  { id: GameType.MEMORY, title: 'Memory', icon: '🧠', minItems: 2, Component: MemoryGame },
+  { id: GameType.MATCHING, title: 'Matching', icon: '🧩', minItems: 2, Component: MatchingGame },
+  { id: GameType.SPELLING, title: 'Spelling', icon: '🔤', minItems: 1, Component: SpellingGame },
+  { id: GameType.ODD_ONE_OUT, title: 'Odd One Out', icon: '🕵️', minItems: 2, Component: OddOneOutGame },
+  { id: GameType.SAY_IT, title: 'Say It!', icon: '🎤', minItems: 1, isAvailable: () => getRecognizer().isSupported(), Component: SayItGame },
+  { id: GameType.BEGINNING_SOUND, title: 'First Sound', icon: '🔠', minItems: 1, Component: BeginningSoundGame },
+];
+
+export const getGameModule = (id: GameType): GameModule | undefined =>
+  GAME_REGISTRY.find(game => game.id === id);
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Category, GameType, HomeLang, Item } from '../../types';
+
+export const shuffle = <T,>(list: T[]): T[] => {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+export interface GameResult {
+  correct: number;
+  total: number;
+  detail?: string;
+}
+
+/**
+ * What GameEngine hands every game module. Score, the round counter, the
+ * "Awesome!" celebration and the results screen live in the engine; a module
+ * only reports progress through these callbacks.
+ */
+export interface GameModuleProps {
+  category: Category;
+  categories: Category[];
+  imageCache: Record<string, string>;
+  /** For games that can show words in the family's language instead of English. */
+  homeLang: HomeLang;
+  onSpeak: (text: string) => void;
+  /** Report an answer about one item; correct answers get the shared celebration. */
+  onAnswer: (item: Item, correct: boolean) => void;
+  onRound: (round: number, total: number) => void;
+  onComplete: (result: GameResult) => void;
+}
+
+export interface GameModule {
+  id: GameType;
+  title: string;
+  icon: string;
+  minItems: number;
+  /** Hidden from the Arcade when the device lacks something the game needs. */
+  isAvailable?: () => boolean;
+  Component: React.FC<GameModuleProps>;
+}
+
+interface ItemVisualProps {
+  item: Item;
+  imageCache: Record<string, string>;
+  className?: string;
+}
+
+export const ItemVisual: React.FC<ItemVisualProps> = ({ item, imageCache, className = "text-5xl" }) => {
+  if (!item) return null;
+  const img = imageCache[item.id];
+  if (img) return <img src={img} alt={item.name} className="w-full h-full object-contain rounded-2xl animate-in fade-in" />;
+  return <span className={className}>{item.emoji}</span>;
+};
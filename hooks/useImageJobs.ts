@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { imageJobs, ImageQueueState } from '../services/imageJobs';
+
+export const useImageJobs = (): ImageQueueState => {
+  const [state, setState] = useState(() => imageJobs.getState());
+
+  useEffect(() => imageJobs.subscribe(setState), []);
+
+  return state;
+};
@@ -0,0 +1,63 @@
+import { HomeLang, Item, SpeechLang } from "../types";
+import { AIError, AIProvider, AIErrorKind, GeneratedItem, RetryOptions, runAI } from "./aiProvider";
+import type { AgeBand } from "./profiles";
+import { geminiProvider, getBrowserApiKey } from "./geminiService";
+import { proxyProvider } from "./proxyProvider";
+import { createMockProvider } from "./mockAIProvider";
+
+/**
+ * VITE_AI_PROVIDER picks the backend explicitly (`proxy`, `gemini` or `mock`;
+ * VITE_AI_MOCK_ERROR makes the mock fail on purpose). Otherwise AI Studio,
+ * which injects its own key, talks to Gemini directly and every other
+ * deployment goes through the Worker proxy so no key reaches the browser.
+ */
+const createDefaultProvider = (): AIProvider => {
+  switch (import.meta.env.VITE_AI_PROVIDER) {
+    case 'mock': return createMockProvider({ failWith: import.meta.env.VITE_AI_MOCK_ERROR as AIErrorKind | undefined });
+    case 'gemini': return geminiProvider;
+    case 'proxy': return proxyProvider;
+    default: return window.aistudio || getBrowserApiKey() ? geminiProvider : proxyProvider;
+  }
+};
+
+let provider: AIProvider = createDefaultProvider();
+
+export const getAIProvider = () => provider;
+
+export const setAIProvider = (next: AIProvider) => {
+  provider = next;
+};
+
+const call = <T,>(run: (p: AIProvider) => Promise<T>, options?: Partial<RetryOptions>): Promise<T> => {
+  const current = provider;
+  if (current.requiresNetwork && !navigator.onLine) {
+    return Promise.reject(new AIError('offline', "Magic is unavailable offline"));
+  }
+  return runAI(() => run(current), options);
+};
+
+export const getFunFact = (itemName: string, categoryName: string): Promise<string> =>
+  call(p => p.getFunFact(itemName, categoryName));
+
+/** Raw suggestions from the AI; run them through `expandCategorySafely` before showing them to a child. */
+export const expandCategoryItems = (categoryName: string, avoidNames: string[], lang: HomeLang, ageBand?: AgeBand): Promise<GeneratedItem[]> =>
+  call(p => p.expandItems(categoryName, avoidNames, lang, ageBand));
+
+export const toDynamicItem = (categoryName: string, it: GeneratedItem, index: number, lang: HomeLang): Item => ({
+  id: `dyn-${categoryName}-${Date.now()}-${index}`,
+  name: it.name,
+  translations: it.translation ? { [lang]: it.translation } : {},
+  emoji: it.emoji,
+  color: "bg-white"
+});
+
+/** Check the result with `isInScript` before saving it; see `translateMissing`. */
+export const translateWords = (words: string[], lang: HomeLang): Promise<string[]> =>
+  call(p => p.translateWords(words, lang));
+
+export const generateSpeech = (text: string, lang: SpeechLang = 'en'): Promise<string | undefined> =>
+  call(p => p.generateSpeech(text, lang));
+
+// ساخت تصویر کند است؛ زمان بیشتر و تلاش کمتر
+export const generateItemImage = (itemName: string, categoryName: string): Promise<string | undefined> =>
+  call(p => p.generateImage(itemName, categoryName), { timeoutMs: 60000, retries: 1 });
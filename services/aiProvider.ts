@@ -0,0 +1,86 @@
+import { AgeBand, HomeLang, SpeechLang } from "../types";
+
+/** A new vocabulary word suggested by the AI, before it gets an id. */
+export interface GeneratedItem {
+  name: string;
+  /** The word in the home language it was requested for. */
+  translation: string;
+  emoji: string;
+}
+
+/**
+ * Everything the app asks an AI backend for. Implementations only talk to
+ * their backend and throw `AIError`s; timeouts and retries are handled once
+ * in `runAI`.
+ */
+export interface AIProvider {
+  id: string;
+  /** False for backends that work without the internet, like the mock. */
+  requiresNetwork: boolean;
+  /** Voice name used as part of the cache key for saved pronunciations. */
+  speechVoice: string;
+  getFunFact(itemName: string, categoryName: string): Promise<string>;
+  /** Up to 10 new words, none of them in `avoidNames`, translated into `lang` and pitched at `ageBand` when given. */
+  expandItems(categoryName: string, avoidNames: string[], lang: HomeLang, ageBand?: AgeBand): Promise<GeneratedItem[]>;
+  /** One translation per English word, in the same order; `''` where there is no good one. */
+  translateWords(words: string[], lang: HomeLang): Promise<string[]>;
+  /** Base64 PCM audio (24 kHz, mono). */
+  generateSpeech(text: string, lang: SpeechLang): Promise<string | undefined>;
+  /** A data URL. */
+  generateImage(itemName: string, categoryName: string): Promise<string | undefined>;
+}
+
+export type AIErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'timeout' | 'offline' | 'unknown';
+
+// فقط خطاهای گذرا ارزش تلاش دوباره دارند
+const RETRYABLE_KINDS: AIErrorKind[] = ['quota', 'network', 'timeout'];
+
+export class AIError extends Error {
+  constructor(public kind: AIErrorKind, message: string, public cause?: unknown) {
+    super(message);
+    this.name = "AIError";
+  }
+
+  get retryable() {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+}
+
+export const toAIError = (error: unknown): AIError =>
+  error instanceof AIError ? error : new AIError('unknown', String(error), error);
+
+export interface RetryOptions {
+  retries: number;
+  timeoutMs: number;
+  baseDelayMs: number;
+}
+
+const DEFAULT_RETRY: RetryOptions = { retries: 2, timeoutMs: 20000, baseDelayMs: 800 };
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withTimeout = <T,>(task: Promise<T>, ms: number): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new AIError('timeout', `No answer after ${ms}ms`)), ms);
+    task.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+/**
+ * Runs one AI call with a timeout per attempt and exponential backoff (with
+ * jitter) between attempts. Auth and safety errors fail immediately.
+ */
+export const runAI = async <T,>(call: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const { retries, timeoutMs, baseDelayMs } = { ...DEFAULT_RETRY, ...options };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(call(), timeoutMs);
+    } catch (e) {
+      const error = toAIError(e);
+      if (!error.retryable || attempt >= retries) throw error;
+      await sleep(baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.5));
+    }
+  }
+};
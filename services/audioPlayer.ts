@@ -1,4 +1,7 @@
 
+import { SpeechLang } from "../types";
+import { speechTag } from "./languages";
+
 function decodeBase64(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -31,22 +34,47 @@ async function decodeAudioData(
 let audioCtx: AudioContext | null = null;
 const audioCache = new Map<string, AudioBuffer>();
 
+// مرورگرها فهرست صداها را با تأخیر بار می‌کنند؛ حداکثر کمی صبر می‌کنیم
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise((resolve) => {
+    const done = () => resolve(window.speechSynthesis.getVoices());
+    window.speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+    setTimeout(done, 1000);
+  });
+};
+
+/**
+ * Picks the best voice for a language: exact region match first, then
+ * on-device voices (they keep working offline), then "Google"/"Premium" ones.
+ */
+const pickVoice = (voices: SpeechSynthesisVoice[], lang: SpeechLang): SpeechSynthesisVoice | undefined => {
+  const tag = speechTag(lang).toLowerCase();
+  const score = (v: SpeechSynthesisVoice) =>
+    (v.lang.toLowerCase().replace('_', '-') === tag ? 4 : 0) +
+    (v.localService ? 2 : 0) +
+    (v.name.includes('Google') || v.name.includes('Premium') ? 1 : 0);
+  return voices
+    .filter(v => v.lang.toLowerCase().startsWith(lang))
+    .sort((a, b) => score(b) - score(a))[0];
+};
+
 /**
  * Enhanced local speech using browser Synthesis.
  * It strictly speaks ONLY the word/letter passed.
  */
-export const playLocalSpeech = (text: string) => {
+export const playLocalSpeech = async (text: string, lang: SpeechLang = 'en') => {
+  const voices = await loadVoices();
   return new Promise((resolve) => {
     // Cancel any ongoing speech
     window.speechSynthesis.cancel();
     
     const utterance = new SpeechSynthesisUtterance(text.trim());
-    utterance.lang = 'en-US';
+    utterance.lang = speechTag(lang);
     
-    // Attempt to find a higher quality female voice (usually better for kids apps)
-    const voices = window.speechSynthesis.getVoices();
-    const premiumVoice = voices.find(v => v.lang.startsWith('en') && (v.name.includes('Google') || v.name.includes('Premium')));
-    if (premiumVoice) utterance.voice = premiumVoice;
+    const voice = pickVoice(voices, lang);
+    if (voice) utterance.voice = voice;
 
     utterance.rate = 0.85; // Slightly slower for clarity
     utterance.pitch = 1.1; // Cheerful tone
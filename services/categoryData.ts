@@ -0,0 +1,172 @@
+import { Category, HomeLang, Item } from "../types";
+import { sanitizeTranslations } from "./languages";
+
+/**
+ * Saved category data, one blob per profile. `editedIds` and `deletedIds`
+ * record how the child's copy differs from the built-in content it was saved
+ * against, so later built-in additions and fixes can still be merged in.
+ */
+export interface SavedCategoryData {
+  version: number;
+  savedAt: number;
+  categories: Category[];
+  /** Built-in categories and items the parent changed; their saved copy wins. */
+  editedIds: string[];
+  /** Built-in categories and items the parent removed; they stay removed. */
+  deletedIds: string[];
+}
+
+export const CATEGORY_DATA_VERSION = 3;
+// localStorage معمولاً حدود ۵ مگابایت جا دارد؛ داده‌ی بزرگتر از این قطعاً خراب است
+export const MAX_SAVED_CHARS = 2_000_000;
+
+type Migration = (data: any) => any;
+
+// هر مرحله داده را از نسخه‌ی کلید به نسخه‌ی بعدی می‌برد
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 was a bare array that fully replaced the built-ins. Nothing could be
+  // edited back then, so every difference is just old built-in content.
+  1: (categories: Category[]) => ({
+    version: 2,
+    savedAt: Date.now(),
+    categories,
+    editedIds: [],
+    deletedIds: [],
+  }),
+  // v2 items had a single `persianName`; v3 keeps one translation per home language.
+  2: (data: any) => ({
+    ...data,
+    version: 3,
+    categories: (Array.isArray(data.categories) ? data.categories : []).map((cat: any) => ({
+      ...cat,
+      items: (Array.isArray(cat?.items) ? cat.items : []).map(({ persianName, ...item }: any) => ({
+        ...item,
+        translations: sanitizeTranslations({ persianName }),
+      })),
+    })),
+  }),
+};
+
+const detectVersion = (data: any): number => (Array.isArray(data) ? 1 : Number(data?.version) || 0);
+
+const sanitizeItem = (raw: any): Item | null => {
+  if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    translations: sanitizeTranslations(raw),
+    emoji: typeof raw.emoji === 'string' && raw.emoji ? raw.emoji : '⭐',
+    color: typeof raw.color === 'string' ? raw.color : 'bg-white',
+  };
+};
+
+/** Drops anything that is not a usable category or item instead of letting it crash a screen later. */
+const sanitizeCategories = (raw: unknown): Category[] => {
+  if (!Array.isArray(raw)) return [];
+  const seenCategories = new Set<string>();
+  return raw.flatMap((cat: any): Category[] => {
+    if (!cat || typeof cat.id !== 'string' || typeof cat.name !== 'string' || seenCategories.has(cat.id)) return [];
+    seenCategories.add(cat.id);
+    const items: Item[] = [];
+    (Array.isArray(cat.items) ? cat.items : []).forEach((rawItem: unknown) => {
+      const item = sanitizeItem(rawItem);
+      if (item && !items.some(it => it.id === item.id)) items.push(item);
+    });
+    return [{
+      id: cat.id,
+      name: cat.name,
+      icon: typeof cat.icon === 'string' ? cat.icon : '⭐',
+      color: typeof cat.color === 'string' ? cat.color : 'bg-indigo-400',
+      items,
+      ...(typeof cat.packId === 'string' ? { packId: cat.packId } : {}),
+    }];
+  });
+};
+
+const sameCategoryFields = (a: Category, b: Category) => a.name === b.name && a.icon === b.icon && a.color === b.color;
+// ترجمه‌هایی که نسخه‌ی داخلی ندارد (مثلاً اسپانیایی ساخته‌شده با AI) ویرایش حساب نمی‌شوند
+const sameTranslations = (saved: Item, builtIn: Item) =>
+  Object.entries(builtIn.translations).every(([lang, text]) => saved.translations[lang as HomeLang] === text);
+const sameItem = (a: Item, b: Item) => a.name === b.name && sameTranslations(a, b) && a.emoji === b.emoji && a.color === b.color;
+
+/**
+ * Combines the current built-in content with a child's saved copy. Saved
+ * order wins; unedited built-ins are refreshed from the new release; built-ins
+ * the parent deleted stay deleted; anything new in the release is appended.
+ * User-only content (`dyn-` AI words, custom words, packs) is kept as is.
+ */
+export const mergeCategories = (builtIns: Category[], data: SavedCategoryData): Category[] => {
+  const edited = new Set(data.editedIds);
+  const deleted = new Set(data.deletedIds);
+  const builtInCategories = new Map(builtIns.map(c => [c.id, c] as const));
+  const builtInItems = new Map(builtIns.flatMap(c => c.items).map(it => [it.id, it] as const));
+  const savedItemIds = new Set(data.categories.flatMap(c => c.items.map(it => it.id)));
+
+  const merged = data.categories.map(saved => {
+    const builtIn = builtInCategories.get(saved.id);
+    const base = builtIn && !edited.has(saved.id) ? { ...saved, name: builtIn.name, icon: builtIn.icon, color: builtIn.color } : saved;
+    const items = saved.items.map(it => {
+      const fresh = builtInItems.get(it.id);
+      return fresh && !edited.has(it.id) ? { ...fresh, translations: { ...it.translations, ...fresh.translations } } : it;
+    });
+    const added = (builtIn?.items || []).filter(it => !savedItemIds.has(it.id) && !deleted.has(it.id));
+    return { ...base, items: [...items, ...added] };
+  });
+
+  const savedCategoryIds = new Set(data.categories.map(c => c.id));
+  const newCategories = builtIns.filter(c => !savedCategoryIds.has(c.id) && !deleted.has(c.id));
+  return [...merged, ...newCategories];
+};
+
+/**
+ * Reads saved category data of any version. Returns the built-ins when there
+ * is nothing saved, and `null` (with the reason logged) when the data is
+ * corrupt, too large or from a newer app version.
+ */
+export const loadCategoryData = (raw: string | null, builtIns: Category[]): Category[] | null => {
+  if (raw === null) return builtIns;
+  if (raw.length > MAX_SAVED_CHARS) {
+    console.warn(`Saved categories are too large (${raw.length} chars), ignoring them`);
+    return null;
+  }
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (e) {
+    console.warn("Saved categories are not valid JSON", e);
+    return null;
+  }
+  let version = detectVersion(data);
+  if (version < 1 || version > CATEGORY_DATA_VERSION) {
+    console.warn(`Unknown saved categories version ${version}`);
+    return null;
+  }
+  while (version < CATEGORY_DATA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = detectVersion(data);
+  }
+  const saved: SavedCategoryData = {
+    version,
+    savedAt: Number(data.savedAt) || 0,
+    categories: sanitizeCategories(data.categories),
+    editedIds: Array.isArray(data.editedIds) ? data.editedIds.filter((id: unknown) => typeof id === 'string') : [],
+    deletedIds: Array.isArray(data.deletedIds) ? data.deletedIds.filter((id: unknown) => typeof id === 'string') : [],
+  };
+  return mergeCategories(builtIns, saved);
+};
+
+/** Serializes categories, noting which built-ins were edited or deleted relative to `builtIns`. */
+export const serializeCategoryData = (categories: Category[], builtIns: Category[]): string => {
+  const builtInCategories = new Map(builtIns.map(c => [c.id, c] as const));
+  const builtInItems = new Map(builtIns.flatMap(c => c.items).map(it => [it.id, it] as const));
+  const presentIds = new Set(categories.flatMap(c => [c.id, ...c.items.map(it => it.id)]));
+
+  const editedIds = [
+    ...categories.filter(c => builtInCategories.has(c.id) && !sameCategoryFields(c, builtInCategories.get(c.id)!)).map(c => c.id),
+    ...categories.flatMap(c => c.items).filter(it => builtInItems.has(it.id) && !sameItem(it, builtInItems.get(it.id)!)).map(it => it.id),
+  ];
+  const deletedIds = [...builtInCategories.keys(), ...builtInItems.keys()].filter(id => !presentIds.has(id));
+
+  const data: SavedCategoryData = { version: CATEGORY_DATA_VERSION, savedAt: Date.now(), categories, editedIds, deletedIds };
+  return JSON.stringify(data);
+};
@@ -0,0 +1,279 @@
+import { Category, Item, SpeechLang } from "../types";
+import { assetKey, assetStore, AssetKind, audioAssetId, audioStorage, imageStorage } from "./storage";
+import { getAIProvider } from "./ai";
+import { getActiveProfileId, profileKey, profileStore } from "./profiles";
+import { loadCategoryData } from "./categoryData";
+import { CATEGORIES } from "../constants";
+import { HOME_LANGS, isSpeechLang, sanitizeTranslations, translationOf } from "./languages";
+
+export const CONTENT_PACK_FORMAT = 'kids-joy-pack';
+// نسخه‌ی ۲: ترجمه‌ها برای هر زبان؛ بسته‌های نسخه‌ی ۱ فقط persianName داشتند
+export const CONTENT_PACK_VERSION = 2;
+
+export interface PackAudio {
+  voice: string;
+  lang: SpeechLang;
+  text: string;
+  /** Base64 PCM, as stored by `audioStorage`. */
+  data: string;
+}
+
+export interface PackItem extends Omit<Item, 'color'> {
+  color?: string;
+  /** Version 1 packs only; read into `translations.fa`. */
+  persianName?: string;
+  /** Optional picture as a data URL. */
+  image?: string;
+  audio?: PackAudio[];
+}
+
+export interface PackCategory extends Omit<Category, 'items' | 'color' | 'packId'> {
+  color?: string;
+  items: PackItem[];
+}
+
+/** A themed word list that can be shared between devices as one JSON file. */
+export interface ContentPack {
+  format: typeof CONTENT_PACK_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  categories: PackCategory[];
+}
+
+/** What an import added, so the pack can later be removed without leftovers. */
+export interface InstalledPack {
+  id: string;
+  name: string;
+  version: number;
+  installedAt: number;
+  categoryIds: string[];
+  assets: { kind: AssetKind; id: string }[];
+}
+
+export class ContentPackError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid content pack: ${problems.join('; ')}`);
+    this.name = "ContentPackError";
+  }
+}
+
+const DEFAULT_CATEGORY_COLOR = 'bg-indigo-400';
+const MAX_PROBLEMS_SHOWN = 5;
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack';
+
+/** Checks a parsed JSON value field by field and returns it typed, or throws with every problem found. */
+export const validatePack = (raw: any): ContentPack => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') throw new ContentPackError(["not a JSON object"]);
+  if (raw.format !== CONTENT_PACK_FORMAT) problems.push(`format must be "${CONTENT_PACK_FORMAT}"`);
+  if (typeof raw.version !== 'number' || raw.version < 1) problems.push("missing version");
+  else if (raw.version > CONTENT_PACK_VERSION) problems.push(`version ${raw.version} is newer than this app supports (${CONTENT_PACK_VERSION})`);
+  if (!isText(raw.id)) problems.push("missing pack id");
+  if (!isText(raw.name)) problems.push("missing pack name");
+  if (!Array.isArray(raw.categories) || raw.categories.length === 0) problems.push("no categories");
+
+  (Array.isArray(raw.categories) ? raw.categories : []).forEach((cat: any, ci: number) => {
+    const where = `category ${ci + 1}`;
+    if (!isText(cat?.id)) problems.push(`${where}: missing id`);
+    if (!isText(cat?.name)) problems.push(`${where}: missing name`);
+    if (!isText(cat?.icon)) problems.push(`${where}: missing icon`);
+    if (!Array.isArray(cat?.items) || cat.items.length === 0) {
+      problems.push(`${where}: no items`);
+      return;
+    }
+    cat.items.forEach((it: any, ii: number) => {
+      const at = `${where}, item ${ii + 1}`;
+      if (!isText(it?.id)) problems.push(`${at}: missing id`);
+      if (!isText(it?.name)) problems.push(`${at}: missing name`);
+      const hasTranslations = it?.translations && typeof it.translations === 'object' && Object.values(it.translations).every(t => typeof t === 'string');
+      if (!hasTranslations && typeof it?.persianName !== 'string') problems.push(`${at}: missing translations`);
+      if (!isText(it?.emoji)) problems.push(`${at}: missing emoji`);
+      if (it?.image !== undefined && !(typeof it.image === 'string' && it.image.startsWith('data:image/'))) {
+        problems.push(`${at}: image must be a data:image URL`);
+      }
+      if (it?.audio !== undefined && !(Array.isArray(it.audio) && it.audio.every((a: any) => isText(a?.voice) && isSpeechLang(a?.lang) && isText(a?.text) && isText(a?.data)))) {
+        problems.push(`${at}: invalid audio`);
+      }
+    });
+  });
+
+  if (problems.length > 0) throw new ContentPackError(problems.slice(0, MAX_PROBLEMS_SHOWN));
+  return raw as ContentPack;
+};
+
+export const parsePack = (json: string): ContentPack => {
+  try {
+    return validatePack(JSON.parse(json));
+  } catch (e) {
+    if (e instanceof ContentPackError) throw e;
+    throw new ContentPackError(["the file is not valid JSON"]);
+  }
+};
+
+const readInstalled = (profileId?: string): InstalledPack[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileKey('packs', profileId)) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeInstalled = (packs: InstalledPack[]) => {
+  localStorage.setItem(profileKey('packs'), JSON.stringify(packs));
+};
+
+// صدا به زبان و متن کلمه بستگی دارد، با هر صدایی (voice) که ساخته شده باشد
+const spokenKey = (lang: string, text: string) => `${lang}:${text.trim().toLowerCase()}`;
+
+/**
+ * Pictures and audio are shared by every profile on the device, so a pack's
+ * asset may only be deleted when nothing else needs it: no installed pack in
+ * any profile lists it and no word in any profile shows or says it.
+ * `categories` are the active profile's; other profiles are read from storage.
+ */
+export const assetsInUse = (categories: Category[]) => {
+  const others = profileStore.list().filter(p => p.id !== getActiveProfileId());
+  const otherCategories = others.flatMap(p =>
+    loadCategoryData(localStorage.getItem(profileKey('categories', p.id)) ?? localStorage.getItem(profileKey('data', p.id)), CATEGORIES) || CATEGORIES);
+  const items = [...categories, ...otherCategories].flatMap(c => c.items);
+  const packs = [...readInstalled(), ...others.flatMap(p => readInstalled(p.id))];
+  const keys = new Set([
+    ...packs.flatMap(p => p.assets.map(a => assetKey(a.kind, a.id))),
+    ...items.map(it => assetKey('image', it.id)),
+  ]);
+  const spoken = new Set(items.flatMap(it => [spokenKey('en', it.name), ...HOME_LANGS.map(lang => spokenKey(lang, translationOf(it, lang)))]));
+  return (asset: { kind: AssetKind; id: string }) =>
+    keys.has(assetKey(asset.kind, asset.id)) || (asset.kind === 'audio' && spoken.has(asset.id.slice(asset.id.indexOf(':') + 1)));
+};
+
+/** Returns `id`, or `id-2`, `id-3`… until it is not in `taken`. */
+const uniqueId = (id: string, taken: Set<string>) => {
+  let candidate = id;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${id}-${n}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+export const contentPacks = {
+  list(): InstalledPack[] {
+    return readInstalled();
+  },
+
+  /**
+   * Builds a pack from the given categories, embedding every picture and
+   * saved pronunciation this device has for their items.
+   */
+  async exportPack(name: string, categories: Category[]): Promise<ContentPack> {
+    const voice = getAIProvider().speechVoice;
+    const packCategories = await Promise.all(categories.map(async ({ packId, ...category }) => ({
+      ...category,
+      items: await Promise.all(category.items.map(async (item): Promise<PackItem> => {
+        const image = await imageStorage.get(item.id);
+        const audio: PackAudio[] = [];
+        const texts: [SpeechLang, string][] = [['en', item.name], ...HOME_LANGS.map(lang => [lang, translationOf(item, lang)] as [SpeechLang, string])];
+        for (const [lang, text] of texts) {
+          const data = text ? await audioStorage.get(voice, lang, text) : null;
+          if (data) audio.push({ voice, lang, text, data });
+        }
+        return { ...item, ...(image ? { image } : {}), ...(audio.length ? { audio } : {}) };
+      })),
+    })));
+    return {
+      format: CONTENT_PACK_FORMAT,
+      version: CONTENT_PACK_VERSION,
+      id: `${slug(name)}-${Date.now()}`,
+      name: name.trim(),
+      createdAt: Date.now(),
+      categories: packCategories,
+    };
+  },
+
+  /**
+   * Adds a pack's categories to `existing`. Category and item ids that clash
+   * with the child's words, or with a different picture already stored, get a
+   * suffix, so imported progress and pictures never overwrite anyone else's. Importing a pack with the same id
+   * again replaces the previous copy.
+   */
+  async importPack(pack: ContentPack, existing: Category[]): Promise<Category[]> {
+    const base = contentPacks.list().some(p => p.id === pack.id) ? await contentPacks.removePack(pack.id, existing) : existing;
+    const takenCategoryIds = new Set(base.map(c => c.id));
+    const takenItemIds = new Set(base.flatMap(c => c.items.map(it => it.id)));
+    const assets: InstalledPack['assets'] = [];
+
+    const imported: Category[] = [];
+    for (const cat of pack.categories) {
+      const items: Item[] = [];
+      for (const packItem of cat.items) {
+        const { image, audio } = packItem;
+        const item: Item = {
+          id: uniqueId(packItem.id, takenItemIds),
+          name: packItem.name.trim(),
+          translations: sanitizeTranslations(packItem),
+          emoji: packItem.emoji,
+          color: packItem.color || 'bg-white',
+        };
+        // فایل‌های بسته قابل ساختن دوباره نیستند؛ سنجاق می‌شوند تا پاک‌سازی خودکار سراغشان نرود
+        if (image) {
+          // تصاویر بین پروفایل‌ها مشترک‌اند؛ شناسه‌ای که تصویر دیگری زیرش است به این کلمه داده نمی‌شود
+          let stored = await assetStore.get('image', item.id);
+          while (stored !== null && stored !== image) {
+            item.id = uniqueId(packItem.id, takenItemIds);
+            stored = await assetStore.get('image', item.id);
+          }
+          if (stored === null) await imageStorage.set(item.id, image, { pinned: true });
+          else await assetStore.pin('image', item.id);
+          assets.push({ kind: 'image', id: item.id });
+        }
+        for (const clip of audio || []) {
+          const id = audioAssetId(clip.voice, clip.lang, clip.text);
+          if (await assetStore.has('audio', id)) await assetStore.pin('audio', id);
+          else await audioStorage.set(clip.voice, clip.lang, clip.text, clip.data, { pinned: true });
+          assets.push({ kind: 'audio', id });
+        }
+        items.push(item);
+      }
+      imported.push({
+        id: uniqueId(cat.id, takenCategoryIds),
+        name: cat.name,
+        icon: cat.icon,
+        color: cat.color || DEFAULT_CATEGORY_COLOR,
+        items,
+        packId: pack.id,
+      });
+    }
+
+    writeInstalled([
+      ...readInstalled().filter(p => p.id !== pack.id),
+      { id: pack.id, name: pack.name, version: pack.version, installedAt: Date.now(), categoryIds: imported.map(c => c.id), assets },
+    ]);
+    return [...base, ...imported];
+  },
+
+  /** Removes a pack's categories and whichever of its pictures and audio nothing else uses. */
+  async removePack(packId: string, categories: Category[]): Promise<Category[]> {
+    const installed = readInstalled().find(p => p.id === packId);
+    const remaining = categories.filter(c => c.packId !== packId);
+    writeInstalled(readInstalled().filter(p => p.id !== packId));
+    const inUse = assetsInUse(remaining);
+    for (const asset of installed?.assets || []) {
+      if (!inUse(asset)) await assetStore.remove(asset.kind, asset.id);
+    }
+    return remaining;
+  },
+};
+
+/** Saves a pack as a `.json` file through the browser's download. */
+export const downloadPack = (pack: ContentPack) => {
+  const blob = new Blob([JSON.stringify(pack)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${slug(pack.name)}.kidsjoy.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,96 +1,156 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-import { Item } from "../types";
+import { ApiError, GenerateContentResponse, GoogleGenAI, Modality, Type } from "@google/genai";
+import { AgeBand, HomeLang, SpeechLang } from "../types";
+import { AIError, AIProvider, GeneratedItem } from "./aiProvider";
+import { LANGUAGES } from "./languages";
 
-// ایجاد کلاینت به صورت پویا با استفاده از متغیر محیطی تزریق شده
-const getClient = () => {
-  const apiKey = process.env.API_KEY || ""; // اجازه می‌دهیم SDK خودش مدیریت کند
-  return new GoogleGenAI({ apiKey });
+/** The key AI Studio injects into the page; empty in normal browser builds. */
+export const getBrowserApiKey = (): string =>
+  (typeof process !== 'undefined' && process.env?.API_KEY) || "";
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+/** Maps whatever the SDK or fetch threw onto an `AIError` kind. */
+const toGeminiError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+  if (error instanceof ApiError) {
+    const { status, message } = error;
+    if (status === 401 || status === 403 || /api key/i.test(message)) return new AIError('auth', message, error);
+    if (status === 429) return new AIError('quota', message, error);
+    if (status >= 500) return new AIError('network', message, error);
+    return new AIError('unknown', message, error);
+  }
+  // fetch خطای شبکه را به صورت TypeError برمی‌گرداند
+  if (error instanceof TypeError) return new AIError('network', error.message, error);
+  return new AIError('unknown', String(error), error);
 };
 
-export const getFunFact = async (itemName: string, categoryName: string): Promise<string> => {
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new AIError('safety', `Blocked by safety filters (${blockReason || finishReason})`);
+  }
+};
+
+const speechPrompt = (lang: SpeechLang) => (lang === 'en' ? 'Say clearly' : LANGUAGES[lang].speechPrompt);
+
+const parseJson = (text: string | undefined) => {
   try {
-    const ai = getClient();
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Tell me a very short, simple, and fun fact for a child about "${itemName}" in category "${categoryName}".`,
-    });
-    return response.text || "Learning is fun!";
+    return JSON.parse(text || "[]");
   } catch (e) {
-    throw e;
+    throw new AIError('unknown', "The AI returned invalid JSON", e);
   }
 };
 
-export const expandCategoryItems = async (categoryName: string, existingItems: Item[]): Promise<Item[]> => {
-  const ai = getClient();
-  const existingNames = existingItems.map(i => i.name).join(", ");
-  
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `Generate 10 new English vocabulary items for children in the category "${categoryName}".
-    Avoid: [${existingNames}].
-    Return ONLY a raw JSON array of objects: [{"name": "English", "persianName": "Farsi", "emoji": "🍎"}].`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            persianName: { type: Type.STRING },
-            emoji: { type: Type.STRING }
-          },
-          required: ["name", "persianName", "emoji"]
-        }
-      }
+export const SPEECH_VOICE = 'Kore';
+
+/**
+ * Talks to Gemini directly with the key from `getApiKey`. The browser uses
+ * the AI Studio key; the Worker proxy passes its secret.
+ */
+export const createGeminiProvider = (getApiKey: () => string): AIProvider => {
+  // ایجاد کلاینت به صورت پویا تا کلید انتخاب شده در AI Studio فوراً اعمال شود
+  const generate = async (params: Parameters<GoogleGenAI['models']['generateContent']>[0]) => {
+    try {
+      const response = await new GoogleGenAI({ apiKey: getApiKey() }).models.generateContent(params);
+      assertNotBlocked(response);
+      return response;
+    } catch (e) {
+      throw toGeminiError(e);
     }
-  });
-
-  const text = response.text || "[]";
-  const data = JSON.parse(text);
-  
-  return data.map((it: any, index: number) => ({
-    id: `dyn-${categoryName}-${Date.now()}-${index}`,
-    name: it.name,
-    persianName: it.persianName,
-    emoji: it.emoji,
-    color: "bg-white"
-  }));
-};
+  };
+
+  return {
+    id: 'gemini',
+    requiresNetwork: true,
+    speechVoice: SPEECH_VOICE,
+
+    async getFunFact(itemName: string, categoryName: string): Promise<string> {
+      const response = await generate({
+        model: 'gemini-3-flash-preview',
+        contents: `Tell me a very short, simple, and fun fact for a child about "${itemName}" in category "${categoryName}".`,
+      });
+      return response.text || "Learning is fun!";
+    },
 
-export const generateSpeech = async (text: string): Promise<string | undefined> => {
-  const ai = getClient();
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: `Say clearly: ${text}` }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: { 
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } 
+    async expandItems(categoryName: string, avoidNames: string[], lang: HomeLang, ageBand?: AgeBand): Promise<GeneratedItem[]> {
+      const audience = ageBand ? `children aged ${ageBand}` : 'children';
+      const language = LANGUAGES[lang].englishName;
+      const response = await generate({
+        model: 'gemini-3-flash-preview',
+        contents: `Generate 10 new English vocabulary items for ${audience} in the category "${categoryName}".
+      Only simple, concrete, child-friendly words, each with exactly one emoji and its translation into ${language}.
+      Avoid: [${avoidNames.join(", ")}].
+      Return ONLY a raw JSON array of objects: [{"name": "English", "translation": "${language}", "emoji": "🍎"}].`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                translation: { type: Type.STRING },
+                emoji: { type: Type.STRING }
+              },
+              required: ["name", "translation", "emoji"]
+            }
+          }
+        }
+      });
+      return parseJson(response.text);
+    },
+
+    async translateWords(words: string[], lang: HomeLang): Promise<string[]> {
+      const response = await generate({
+        model: 'gemini-3-flash-preview',
+        contents: `Translate each of these English words for young children into ${LANGUAGES[lang].englishName}, using the everyday word a parent would say.
+      Words: ${JSON.stringify(words)}.
+      Return ONLY a raw JSON array of ${words.length} strings in the same order; use "" when unsure.`,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } }
+        }
+      });
+      const translations = parseJson(response.text);
+      if (!Array.isArray(translations) || translations.length !== words.length) {
+        throw new AIError('unknown', "The AI returned the wrong number of translations");
       }
-    }
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-};
+      return translations.map(t => (typeof t === 'string' ? t.trim() : ''));
+    },
 
-export const generateItemImage = async (itemName: string, categoryName: string): Promise<string | undefined> => {
-  const ai = getClient();
-  const prompt = `A vibrant 3D cartoon illustration of a ${itemName} on white background. High quality, cute style for kids.`;
-  
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: { parts: [{ text: prompt }] },
-    config: { 
-      imageConfig: { aspectRatio: "1:1" }
-    }
-  });
+    async generateSpeech(text: string, lang: SpeechLang): Promise<string | undefined> {
+      const response = await generate({
+        model: "gemini-2.5-flash-preview-tts",
+        contents: [{ parts: [{ text: `${speechPrompt(lang)}: ${text}` }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: SPEECH_VOICE } }
+          }
+        }
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    },
 
-  if (!response.candidates?.[0]?.content?.parts) return undefined;
+    async generateImage(itemName: string, categoryName: string): Promise<string | undefined> {
+      const prompt = `A vibrant 3D cartoon illustration of a ${itemName} on white background. High quality, cute style for kids.`;
+      const response = await generate({
+        model: 'gemini-2.5-flash-image',
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          imageConfig: { aspectRatio: "1:1" }
+        }
+      });
 
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+      return undefined;
     }
-  }
-  return undefined;
+  };
 };
+
+export const geminiProvider = createGeminiProvider(getBrowserApiKey);
@@ -0,0 +1,152 @@
+import { Category } from "../types";
+import { generateItemImage } from "./ai";
+import { toAIError } from "./aiProvider";
+import { imageStorage } from "./storage";
+
+export type ImageJobStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface ImageJob {
+  itemId: string;
+  itemName: string;
+  categoryId: string;
+  categoryName: string;
+  status: ImageJobStatus;
+  attempts: number;
+}
+
+export interface ImageQueueState {
+  jobs: ImageJob[];
+  /** Paused by the parent; survives reloads. */
+  paused: boolean;
+  /** Set after a quota error; nothing starts before this time. */
+  cooldownUntil: number;
+  /** Why the queue stopped by itself, e.g. a missing API key. */
+  blockedReason: string | null;
+}
+
+const STORAGE_KEY = 'kids_joy_image_jobs';
+// تصویرسازی سنگین است؛ بیشتر از دو درخواست همزمان فقط خطای سهمیه می‌گیرد
+const MAX_CONCURRENT = 2;
+const MAX_ATTEMPTS = 3;
+const QUOTA_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 10 * 60 * 1000;
+
+const load = (): ImageQueueState => {
+  const empty: ImageQueueState = { jobs: [], paused: false, cooldownUntil: 0, blockedReason: null };
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || !Array.isArray(saved.jobs)) return empty;
+    // کارهایی که هنگام بستن برنامه در حال اجرا بودند از نو شروع می‌شوند
+    const jobs = saved.jobs.map((job: ImageJob) => (job.status === 'running' ? { ...job, status: 'pending' } : job));
+    return { ...empty, jobs, paused: !!saved.paused };
+  } catch (e) {
+    return empty;
+  }
+};
+
+let state: ImageQueueState = load();
+let quotaStrikes = 0;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(state: ImageQueueState) => void>();
+
+const update = (change: Partial<ImageQueueState>) => {
+  state = { ...state, ...change };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ jobs: state.jobs, paused: state.paused }));
+  } catch (e) { console.warn("Saving image jobs failed", e); }
+  listeners.forEach(listener => listener(state));
+};
+
+const setJob = (itemId: string, change: Partial<ImageJob>) =>
+  update({ jobs: state.jobs.map(job => (job.itemId === itemId ? { ...job, ...change } : job)) });
+
+const wakeAt = (time: number) => {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = setTimeout(() => { wakeTimer = null; pump(); }, Math.max(0, time - Date.now()));
+};
+
+const runJob = async (job: ImageJob) => {
+  setJob(job.itemId, { status: 'running', attempts: job.attempts + 1 });
+  try {
+    if (await imageStorage.has(job.itemId)) {
+      setJob(job.itemId, { status: 'skipped' });
+    } else {
+      const url = await generateItemImage(job.itemName, job.categoryName);
+      if (url) await imageStorage.set(job.itemId, url);
+      setJob(job.itemId, { status: url ? 'done' : 'failed' });
+    }
+    quotaStrikes = 0;
+  } catch (e) {
+    const error = toAIError(e);
+    if (error.kind === 'quota') {
+      // هر بار خطای سهمیه، مکث دو برابر می‌شود
+      quotaStrikes += 1;
+      const cooldownUntil = Date.now() + Math.min(MAX_BACKOFF_MS, QUOTA_BACKOFF_MS * 2 ** (quotaStrikes - 1));
+      setJob(job.itemId, { status: 'pending' });
+      update({ cooldownUntil });
+      wakeAt(cooldownUntil);
+    } else if (error.kind === 'auth' || error.kind === 'offline') {
+      setJob(job.itemId, { status: 'pending', attempts: job.attempts });
+      update({ blockedReason: error.kind });
+    } else {
+      setJob(job.itemId, { status: job.attempts + 1 >= MAX_ATTEMPTS ? 'failed' : 'pending' });
+    }
+  }
+  pump();
+};
+
+/** Starts pending jobs until the concurrency limit is reached. */
+const pump = () => {
+  if (state.paused || state.blockedReason || Date.now() < state.cooldownUntil) return;
+  const running = state.jobs.filter(job => job.status === 'running').length;
+  state.jobs
+    .filter(job => job.status === 'pending')
+    .slice(0, Math.max(0, MAX_CONCURRENT - running))
+    .forEach(runJob);
+};
+
+// وقتی اینترنت برگشت، صف از جایی که مانده بود ادامه می‌دهد
+window.addEventListener('online', () => {
+  if (state.blockedReason === 'offline') update({ blockedReason: null });
+  pump();
+});
+
+export const imageJobs = {
+  getState: () => state,
+
+  subscribe(listener: (state: ImageQueueState) => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  /** Queues every item in the category that is not queued yet; items with a picture are skipped when their turn comes. */
+  enqueueCategory(category: Category): void {
+    const queued = new Set(state.jobs.filter(job => job.status === 'pending' || job.status === 'running').map(job => job.itemId));
+    const others = state.jobs.filter(job => queued.has(job.itemId) || job.categoryId !== category.id);
+    const fresh = category.items
+      .filter(item => !queued.has(item.id))
+      .map(item => ({ itemId: item.id, itemName: item.name, categoryId: category.id, categoryName: category.name, status: 'pending' as const, attempts: 0 }));
+    update({ jobs: [...others, ...fresh], blockedReason: null });
+    pump();
+  },
+
+  pause(): void {
+    update({ paused: true });
+  },
+
+  resume(): void {
+    quotaStrikes = 0;
+    update({ paused: false, blockedReason: null, cooldownUntil: 0 });
+    pump();
+  },
+
+  /** Forgets finished jobs; pending ones stay unless `all` is set. */
+  clear(all = false): void {
+    update({ jobs: all ? state.jobs.filter(job => job.status === 'running') : state.jobs.filter(job => job.status === 'pending' || job.status === 'running') });
+  },
+
+  /** Picks up work left over from the last visit. */
+  start(): void {
+    pump();
+  },
+};
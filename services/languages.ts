@@ -0,0 +1,64 @@
+import { HomeLang, Item, SpeechLang, Translations } from "../types";
+
+export interface LanguageInfo {
+  code: HomeLang;
+  /** Used in AI prompts and the parent dashboard. */
+  englishName: string;
+  nativeName: string;
+  /** Fits on a small toggle next to "ABC". */
+  shortName: string;
+  dir: 'rtl' | 'ltr';
+  /** BCP 47 tag for the browser's speech synthesis and recognition. */
+  speechTag: string;
+  /** Instruction in front of the text when Gemini reads it aloud. */
+  speechPrompt: string;
+  /** What a valid translation is written in. */
+  script: RegExp;
+}
+
+// حروف فارسی/عربی، نیم‌فاصله و فاصله
+const ARABIC_SCRIPT = /^[\u0600-\u06FF\uFB50-\uFDFF\uFE70-\uFEFC\u200C\s]+$/;
+const LATIN_SCRIPT = /^[\p{Script=Latin}\s'’-]+$/u;
+
+export const LANGUAGES: Record<HomeLang, LanguageInfo> = {
+  fa: { code: 'fa', englishName: 'Persian (Farsi)', nativeName: 'فارسی', shortName: 'فا', dir: 'rtl', speechTag: 'fa-IR', speechPrompt: 'Say clearly in Persian (Farsi), with a native Iranian accent', script: ARABIC_SCRIPT },
+  ar: { code: 'ar', englishName: 'Arabic', nativeName: 'العربية', shortName: 'عر', dir: 'rtl', speechTag: 'ar-SA', speechPrompt: 'Say clearly in Modern Standard Arabic', script: ARABIC_SCRIPT },
+  tr: { code: 'tr', englishName: 'Turkish', nativeName: 'Türkçe', shortName: 'TR', dir: 'ltr', speechTag: 'tr-TR', speechPrompt: 'Say clearly in Turkish, with a native accent', script: LATIN_SCRIPT },
+  es: { code: 'es', englishName: 'Spanish', nativeName: 'Español', shortName: 'ES', dir: 'ltr', speechTag: 'es-ES', speechPrompt: 'Say clearly in Spanish, with a native accent', script: LATIN_SCRIPT },
+};
+
+export const HOME_LANGS = Object.keys(LANGUAGES) as HomeLang[];
+
+// داده‌های قدیمی همه فارسی بودند
+export const DEFAULT_HOME_LANG: HomeLang = 'fa';
+
+export const isHomeLang = (value: unknown): value is HomeLang =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+
+export const isSpeechLang = (value: unknown): value is SpeechLang => value === 'en' || isHomeLang(value);
+
+export const speechTag = (lang: SpeechLang): string => (lang === 'en' ? 'en-US' : LANGUAGES[lang].speechTag);
+
+/** The item's name in `lang`, or `''` when nobody has translated it yet. */
+export const translationOf = (item: Item, lang: HomeLang): string => item.translations?.[lang]?.trim() || '';
+
+export const isInScript = (text: string, lang: HomeLang): boolean => {
+  const trimmed = text.trim();
+  return trimmed.length > 0 && LANGUAGES[lang].script.test(trimmed) && /[^\s'’-]/.test(trimmed);
+};
+
+/**
+ * Keeps only known languages with non-empty text. Also reads the old
+ * `persianName` field, so data saved before translations existed still loads.
+ */
+export const sanitizeTranslations = (raw: any): Translations => {
+  const translations: Translations = {};
+  if (raw?.translations && typeof raw.translations === 'object') {
+    HOME_LANGS.forEach(lang => {
+      const text = raw.translations[lang];
+      if (typeof text === 'string' && text.trim()) translations[lang] = text.trim();
+    });
+  }
+  if (!translations.fa && typeof raw?.persianName === 'string' && raw.persianName.trim()) translations.fa = raw.persianName.trim();
+  return translations;
+};
@@ -0,0 +1,108 @@
+import { Category, Item } from "../types";
+import { eventStorage, reviewStorage, LearningEvent, LearningEventType, ReviewRecord } from "./storage";
+import { getActiveProfileId } from "./profiles";
+
+// از این جعبه به بعد کلمه «یاد گرفته شده» حساب می‌شود
+export const MASTERED_BOX = 3;
+// فاصله‌ی بیشتر از این بین دو رویداد یعنی کودک بازی را رها کرده است
+const IDLE_GAP_MS = 2 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface EventDetails {
+  categoryId?: string;
+  gameType?: string;
+  correct?: boolean;
+}
+
+export const learningLog = {
+  record(type: LearningEventType, itemId: string, details: EventDetails = {}): void {
+    eventStorage.add({ profileId: getActiveProfileId(), type, itemId, ts: Date.now(), ...details });
+  },
+
+  async load(): Promise<{ events: LearningEvent[]; reviews: ReviewRecord[] }> {
+    const profileId = getActiveProfileId();
+    const [events, reviews] = await Promise.all([eventStorage.getAll(profileId), reviewStorage.getAll(profileId)]);
+    return { events, reviews };
+  }
+};
+
+export const dayKey = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export interface CategoryProgress {
+  category: Category;
+  seen: number;
+  mastered: number;
+}
+
+export interface GameAccuracy {
+  gameType: string;
+  correct: number;
+  total: number;
+}
+
+export interface MissedItem {
+  item: Item;
+  wrong: number;
+}
+
+export interface LearningStats {
+  categories: CategoryProgress[];
+  accuracy: GameAccuracy[];
+  mostMissed: MissedItem[];
+  minutesByDay: Record<string, number>;
+  activeDays: Set<string>;
+  streak: number;
+}
+
+export const computeStats = (events: LearningEvent[], reviews: ReviewRecord[], categories: Category[], now: number = Date.now()): LearningStats => {
+  const seenIds = new Set(events.map(e => e.itemId));
+  const masteredIds = new Set(reviews.filter(r => r.box >= MASTERED_BOX).map(r => r.itemId));
+
+  const progress = categories.map(category => ({
+    category,
+    seen: category.items.filter(it => seenIds.has(it.id)).length,
+    mastered: category.items.filter(it => masteredIds.has(it.id)).length,
+  }));
+
+  const accuracyMap = new Map<string, GameAccuracy>();
+  const wrongByItem = new Map<string, number>();
+  events.filter(e => e.type === 'answered').forEach(e => {
+    const key = e.gameType || 'Other';
+    const entry = accuracyMap.get(key) || { gameType: key, correct: 0, total: 0 };
+    entry.total += 1;
+    if (e.correct) entry.correct += 1;
+    else wrongByItem.set(e.itemId, (wrongByItem.get(e.itemId) || 0) + 1);
+    accuracyMap.set(key, entry);
+  });
+
+  const itemsById = new Map(categories.flatMap(c => c.items).map(it => [it.id, it] as const));
+  const mostMissed = [...wrongByItem.entries()]
+    .filter(([id]) => itemsById.has(id))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 10)
+    .map(([id, wrong]) => ({ item: itemsById.get(id)!, wrong }));
+
+  const sorted = [...events].sort((a, b) => a.ts - b.ts);
+  const msByDay: Record<string, number> = {};
+  sorted.forEach((e, i) => {
+    const prev = sorted[i - 1];
+    if (!prev || e.ts - prev.ts > IDLE_GAP_MS || dayKey(prev.ts) !== dayKey(e.ts)) return;
+    msByDay[dayKey(e.ts)] = (msByDay[dayKey(e.ts)] || 0) + (e.ts - prev.ts);
+  });
+  const minutesByDay: Record<string, number> = {};
+  Object.entries(msByDay).forEach(([day, ms]) => { minutesByDay[day] = Math.round(ms / 60000); });
+
+  const activeDays = new Set(events.map(e => dayKey(e.ts)));
+  // اگر امروز هنوز بازی نکرده، زنجیره از دیروز شمرده می‌شود
+  let cursor = activeDays.has(dayKey(now)) ? now : now - DAY_MS;
+  let streak = 0;
+  while (activeDays.has(dayKey(cursor))) {
+    streak += 1;
+    cursor -= DAY_MS;
+  }
+
+  return { categories: progress, accuracy: [...accuracyMap.values()], mostMissed, minutesByDay, activeDays, streak };
+};
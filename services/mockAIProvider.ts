@@ -0,0 +1,93 @@
+import { HomeLang, SpeechLang } from "../types";
+import { AIError, AIErrorKind, AIProvider } from "./aiProvider";
+
+const SAMPLE_RATE = 24000;
+
+interface MockWord {
+  name: string;
+  translations: Record<HomeLang, string>;
+  emoji: string;
+}
+
+// کلمات ثابت برای «GET 10 NEW» تا بدون کلید هم بشود برنامه را ساخت و آزمایش کرد
+const MOCK_WORDS: MockWord[] = [
+  { name: 'Kite', translations: { fa: 'بادبادک', ar: 'طائرة ورقية', tr: 'Uçurtma', es: 'Cometa' }, emoji: '🪁' },
+  { name: 'Drum', translations: { fa: 'طبل', ar: 'طبل', tr: 'Davul', es: 'Tambor' }, emoji: '🥁' },
+  { name: 'Cactus', translations: { fa: 'کاکتوس', ar: 'صبار', tr: 'Kaktüs', es: 'Cactus' }, emoji: '🌵' },
+  { name: 'Robot', translations: { fa: 'ربات', ar: 'روبوت', tr: 'Robot', es: 'Robot' }, emoji: '🤖' },
+  { name: 'Rainbow', translations: { fa: 'رنگین‌کمان', ar: 'قوس قزح', tr: 'Gökkuşağı', es: 'Arcoíris' }, emoji: '🌈' },
+  { name: 'Balloon', translations: { fa: 'بادکنک', ar: 'بالون', tr: 'Balon', es: 'Globo' }, emoji: '🎈' },
+  { name: 'Turtle', translations: { fa: 'لاک‌پشت', ar: 'سلحفاة', tr: 'Kaplumbağa', es: 'Tortuga' }, emoji: '🐢' },
+  { name: 'Pizza', translations: { fa: 'پیتزا', ar: 'بيتزا', tr: 'Pizza', es: 'Pizza' }, emoji: '🍕' },
+  { name: 'Rocket', translations: { fa: 'موشک', ar: 'صاروخ', tr: 'Roket', es: 'Cohete' }, emoji: '🚀' },
+  { name: 'Umbrella', translations: { fa: 'چتر', ar: 'مظلة', tr: 'Şemsiye', es: 'Paraguas' }, emoji: '☂️' },
+  { name: 'Snail', translations: { fa: 'حلزون', ar: 'حلزون', tr: 'Salyangoz', es: 'Caracol' }, emoji: '🐌' },
+  { name: 'Gift', translations: { fa: 'هدیه', ar: 'هدية', tr: 'Hediye', es: 'Regalo' }, emoji: '🎁' },
+];
+
+const hash = (text: string) => [...text].reduce((h, ch) => (h * 31 + ch.charCodeAt(0)) >>> 0, 7);
+
+/** A short two-tone beep as base64 16-bit PCM, so the audio path runs end to end. */
+const beep = (text: string): string => {
+  const frequency = 300 + (hash(text) % 400);
+  const samples = Math.round(SAMPLE_RATE * Math.min(1.2, 0.25 + text.length * 0.05));
+  const bytes = new Uint8Array(samples * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples; i++) {
+    const tone = i < samples / 2 ? frequency : frequency * 1.25;
+    view.setInt16(i * 2, Math.sin((2 * Math.PI * tone * i) / SAMPLE_RATE) * 8000, true);
+  }
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const placeholderImage = (itemName: string): string => {
+  const hue = hash(itemName) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 256 256">
+    <rect width="256" height="256" rx="48" fill="hsl(${hue},80%,85%)"/>
+    <text x="128" y="140" font-size="36" text-anchor="middle" font-family="sans-serif" fill="hsl(${hue},60%,30%)">${itemName.replace(/[<&>]/g, '')}</text>
+  </svg>`;
+  return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+};
+
+export interface MockProviderOptions {
+  /** Every call fails with this kind, to try out the error UI. */
+  failWith?: AIErrorKind;
+  latencyMs?: number;
+}
+
+/**
+ * Deterministic stand-in for the real AI: the same input always gives the
+ * same answer and nothing leaves the device.
+ */
+export const createMockProvider = ({ failWith, latencyMs = 300 }: MockProviderOptions = {}): AIProvider => {
+  const respond = async <T,>(value: T): Promise<T> => {
+    await new Promise(resolve => setTimeout(resolve, latencyMs));
+    if (failWith) throw new AIError(failWith, `Mock ${failWith} error`);
+    return value;
+  };
+
+  return {
+    id: 'mock',
+    requiresNetwork: false,
+    speechVoice: 'mock',
+
+    getFunFact: (itemName: string, categoryName: string) =>
+      respond(`Did you know? A ${itemName.toLowerCase()} is one of the most fun things in ${categoryName}!`),
+
+    expandItems: (categoryName: string, avoidNames: string[], lang: HomeLang) => {
+      const existing = new Set(avoidNames.map(name => name.toLowerCase()));
+      return respond(MOCK_WORDS.filter(word => !existing.has(word.name.toLowerCase())).slice(0, 10)
+        .map(({ name, translations, emoji }) => ({ name, translation: translations[lang], emoji })));
+    },
+
+    // فقط کلمات خودش را می‌شناسد؛ بقیه بدون ترجمه می‌مانند
+    translateWords: (words: string[], lang: HomeLang) =>
+      respond(words.map(word => MOCK_WORDS.find(w => w.name.toLowerCase() === word.toLowerCase())?.translations[lang] ?? '')),
+
+    generateSpeech: (text: string, lang: SpeechLang) => respond(beep(`${lang}:${text}`)),
+
+    generateImage: (itemName: string) => respond(placeholderImage(itemName)),
+  };
+};
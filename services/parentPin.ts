@@ -0,0 +1,21 @@
+const PIN_KEY = 'kids_joy_parent_pin';
+
+const hashPin = async (pin: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`kids-joy:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// پین روی دستگاه ذخیره می‌شود، نه برای هر کودک جداگانه
+export const parentPin = {
+  isSet(): boolean {
+    return !!localStorage.getItem(PIN_KEY);
+  },
+
+  async set(pin: string): Promise<void> {
+    localStorage.setItem(PIN_KEY, await hashPin(pin));
+  },
+
+  async verify(pin: string): Promise<boolean> {
+    return localStorage.getItem(PIN_KEY) === await hashPin(pin);
+  }
+};
@@ -0,0 +1,64 @@
+import { Category } from "../types";
+import { LetterWord } from "./phonics";
+import { translationOf } from "./languages";
+
+export interface PersianLetter {
+  letter: string;
+  /** The letter's name as a Persian speaker says it, for TTS. */
+  name: string;
+  /** False for the seven letters that never join the letter after them (ا د ذ ر ز ژ و). */
+  joinsNext: boolean;
+  /** Used only when no vocabulary word starts with the letter. */
+  example?: { word: string; emoji: string };
+}
+
+export type LetterForm = 'isolated' | 'initial' | 'medial' | 'final';
+
+export const FORM_LABELS: Record<LetterForm, string> = {
+  isolated: 'جدا',
+  initial: 'اول',
+  medial: 'وسط',
+  final: 'آخر',
+};
+
+const letter = (char: string, name: string, joinsNext = true, example?: PersianLetter['example']): PersianLetter =>
+  ({ letter: char, name, joinsNext, example });
+
+// ۳۲ حرف الفبای فارسی به ترتیب
+export const PERSIAN_LETTERS: PersianLetter[] = [
+  letter('ا', 'الف', false), letter('ب', 'بِ'), letter('پ', 'پِ'), letter('ت', 'تِ'), letter('ث', 'ثِ', true, { word: 'ثانیه', emoji: '⏱️' }),
+  letter('ج', 'جیم'), letter('چ', 'چِ'), letter('ح', 'حِ', true, { word: 'حلزون', emoji: '🐌' }), letter('خ', 'خِ'), letter('د', 'دال', false),
+  letter('ذ', 'ذال', false), letter('ر', 'رِ', false), letter('ز', 'زِ', false), letter('ژ', 'ژِ', false, { word: 'ژله', emoji: '🍮' }), letter('س', 'سین'),
+  letter('ش', 'شین'), letter('ص', 'صاد'), letter('ض', 'ضاد', true, { word: 'ضربدر', emoji: '✖️' }), letter('ط', 'طا'), letter('ظ', 'ظا', true, { word: 'ظرف', emoji: '🥣' }),
+  letter('ع', 'عین'), letter('غ', 'غین'), letter('ف', 'فِ'), letter('ق', 'قاف'), letter('ک', 'کاف'),
+  letter('گ', 'گاف'), letter('ل', 'لام'), letter('م', 'میم'), letter('ن', 'نون'), letter('و', 'واو', false),
+  letter('ه', 'هِ'), letter('ی', 'یِ'),
+];
+
+// اتصال‌دهنده‌ی نامرئی؛ مرورگر با آن شکل چسبیده‌ی حرف را نشان می‌دهد
+const ZWJ = '\u200D';
+
+/** The letter as it looks alone, at the start, in the middle and at the end of a word. */
+export const letterForms = ({ letter: char, joinsNext }: PersianLetter): Record<LetterForm, string> => ({
+  isolated: char,
+  initial: joinsNext ? `${char}${ZWJ}` : char,
+  medial: joinsNext ? `${ZWJ}${char}${ZWJ}` : `${ZWJ}${char}`,
+  final: `${ZWJ}${char}`,
+});
+
+// ی و ک عربی در بعضی داده‌ها هست؛ آ هم با الف شروع می‌شود
+const normalizePersian = (text: string) => text.trim().replace(/ي/g, 'ی').replace(/ك/g, 'ک').replace(/^آ/, 'ا');
+
+/** Every vocabulary item whose Persian name starts with the letter, once per word. */
+export const persianWordsFor = (char: string, categories: Category[]): LetterWord[] => {
+  const seen = new Set<string>();
+  return categories.flatMap(category => category.items
+    .filter(item => normalizePersian(translationOf(item, 'fa')).startsWith(char))
+    .filter(item => {
+      const word = translationOf(item, 'fa');
+      if (seen.has(word)) return false;
+      seen.add(word);
+      return true;
+    })
+    .map(item => ({ item, category })));
+};
@@ -0,0 +1,50 @@
+import { Category, Item } from "../types";
+
+// صدای هر حرف به شکلی نوشته شده که موتور گفتار آن را درست بخواند، نه نام حرف
+export const LETTER_SOUNDS: Record<string, string> = {
+  A: 'ah', B: 'buh', C: 'kuh', D: 'duh', E: 'eh', F: 'fff', G: 'guh', H: 'hhh', I: 'ih',
+  J: 'juh', K: 'kuh', L: 'lll', M: 'mmm', N: 'nnn', O: 'aw', P: 'puh', Q: 'kwuh', R: 'rrr',
+  S: 'sss', T: 'tuh', U: 'uh', V: 'vvv', W: 'wuh', X: 'ks', Y: 'yuh', Z: 'zzz',
+};
+
+export interface LetterWord {
+  item: Item;
+  category: Category;
+}
+
+/** Upper-case first letter of an English word, or '' when it does not start with A–Z. */
+export const startingLetter = (name: string): string => {
+  const first = name.trim().charAt(0).toUpperCase();
+  return LETTER_SOUNDS[first] ? first : '';
+};
+
+/** What the app says for a letter's sound, e.g. "B says buh". */
+export const letterSoundPhrase = (letter: string) => `${letter} says ${LETTER_SOUNDS[letter]}`;
+
+/**
+ * Items from every category whose name starts with `letter`, once per word,
+ * in category order. "Orange" the fruit and "Orange" the colour show up once.
+ */
+export const wordsForLetter = (letter: string, categories: Category[]): LetterWord[] => {
+  const seen = new Set<string>();
+  return categories.flatMap(category => category.items
+    .filter(item => startingLetter(item.name) === letter)
+    .filter(item => {
+      const key = item.name.trim().toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(item => ({ item, category })));
+};
+
+export const LETTER_CATEGORY_PREFIX = 'letter-';
+
+/** A made-up category holding every word for one letter, so the games can be played per letter. */
+export const letterCategory = (letter: string, categories: Category[]): Category => ({
+  id: `${LETTER_CATEGORY_PREFIX}${letter}`,
+  name: `Letter ${letter}`,
+  icon: letter,
+  color: 'bg-green-500',
+  items: wordsForLetter(letter, categories).map(w => w.item),
+});
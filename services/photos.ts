@@ -0,0 +1,28 @@
+// عکس‌های دوربین چند مگابایتی‌اند؛ برای کارت‌ها همین اندازه کافی است
+const MAX_PHOTO_SIZE = 512;
+const PHOTO_QUALITY = 0.85;
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Could not read the photo")); };
+    img.src = url;
+  });
+
+/** Scales a photo down so its longest side is at most `maxSize` and returns it as a JPEG data URL. */
+export const resizePhoto = async (file: File, maxSize: number = MAX_PHOTO_SIZE): Promise<string> => {
+  const img = await loadImage(file);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  // پس‌زمینه‌ی سفید برای PNGهای شفاف، چون JPEG شفافیت ندارد
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', PHOTO_QUALITY);
+};
@@ -0,0 +1,122 @@
+import { AgeBand, Category, HomeLang } from "../types";
+import { eventStorage, imageStorage, reviewStorage } from "./storage";
+import { loadCategoryData, serializeCategoryData } from "./categoryData";
+import { DEFAULT_HOME_LANG, isHomeLang } from "./languages";
+
+export type { AgeBand };
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  avatar: string;
+  ageBand: AgeBand;
+  createdAt: number;
+}
+
+export const AGE_BANDS: AgeBand[] = ['2-4', '5-7', '8-10'];
+export const PROFILE_AVATARS = ['🦁', '🐼', '🦄', '🐸', '🐙', '🦊', '🐯', '🐰', '🚀', '🌈'];
+
+const PROFILES_KEY = 'kids_joy_profiles';
+const LEGACY_DATA_KEY = 'kids_joy_v11_data';
+export const DEFAULT_PROFILE_ID = 'default';
+
+let activeProfileId: string = DEFAULT_PROFILE_ID;
+
+/** localStorage key that belongs to one child, e.g. their categories or settings. */
+export const profileKey = (name: string, profileId: string = activeProfileId) => `kids_joy_p_${profileId}_${name}`;
+
+export const getActiveProfileId = () => activeProfileId;
+
+const readProfiles = (): ChildProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeProfiles = (profiles: ChildProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * Before profiles existed all progress lived in one global blob; the first
+ * launch after the update moves it into a default profile so nothing is lost.
+ */
+const migrateLegacyData = () => {
+  const legacy = localStorage.getItem(LEGACY_DATA_KEY);
+  if (!legacy || readProfiles().length > 0) return;
+  writeProfiles([{ id: DEFAULT_PROFILE_ID, name: 'My Kid', avatar: '🧒', ageBand: '5-7', createdAt: Date.now() }]);
+  localStorage.setItem(profileKey('categories', DEFAULT_PROFILE_ID), legacy);
+  localStorage.removeItem(LEGACY_DATA_KEY);
+};
+
+export const profileStore = {
+  list(): ChildProfile[] {
+    migrateLegacyData();
+    return readProfiles();
+  },
+
+  create(name: string, avatar: string, ageBand: AgeBand): ChildProfile {
+    const profile: ChildProfile = { id: `kid-${Date.now()}`, name: name.trim(), avatar, ageBand, createdAt: Date.now() };
+    writeProfiles([...readProfiles(), profile]);
+    return profile;
+  },
+
+  remove(id: string): void {
+    writeProfiles(readProfiles().filter(p => p.id !== id));
+    reviewStorage.clearProfile(id);
+    eventStorage.clearProfile(id);
+    imageStorage.removeProfilePhotos(id);
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(profileKey('', id)))
+      .forEach(key => localStorage.removeItem(key));
+  },
+
+  activate(id: string): void {
+    activeProfileId = id;
+    imageStorage.useProfile(id);
+  },
+
+  /** The profile's categories merged with `builtIns`; unreadable data is set aside and the built-ins are used. */
+  loadCategories(builtIns: Category[]): Category[] {
+    // قبل از نسخه‌بندی، داده‌ها زیر کلید «data» ذخیره می‌شدند
+    const raw = localStorage.getItem(profileKey('categories')) ?? localStorage.getItem(profileKey('data'));
+    const loaded = loadCategoryData(raw, builtIns);
+    if (loaded) return loaded;
+    try {
+      localStorage.setItem(profileKey('categories_corrupt'), raw!);
+    } catch (e) { /* too large to keep a copy */ }
+    return builtIns;
+  },
+
+  saveCategories(categories: Category[], builtIns: Category[]): boolean {
+    try {
+      localStorage.setItem(profileKey('categories'), serializeCategoryData(categories, builtIns));
+      localStorage.removeItem(profileKey('data'));
+      return true;
+    } catch (e) {
+      console.warn("Saving categories failed", e);
+      return false;
+    }
+  },
+
+  loadScore(): number {
+    return Number(localStorage.getItem(profileKey('score'))) || 0;
+  },
+
+  saveScore(score: number): void {
+    localStorage.setItem(profileKey('score'), String(score));
+  },
+
+  /** The language on the back of this child's cards. */
+  loadHomeLang(): HomeLang {
+    const saved = localStorage.getItem(profileKey('home_lang'));
+    return isHomeLang(saved) ? saved : DEFAULT_HOME_LANG;
+  },
+
+  saveHomeLang(lang: HomeLang): void {
+    localStorage.setItem(profileKey('home_lang'), lang);
+  }
+};
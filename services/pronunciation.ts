@@ -0,0 +1,136 @@
+import { SpeechLang } from "../types";
+import { speechTag } from "./languages";
+
+// اگر کودک چیزی نگوید، بعد از این مدت گوش دادن تمام می‌شود
+const LISTEN_TIMEOUT_MS = 6000;
+
+/**
+ * Anything that can turn the child's voice into text. The browser's Web
+ * Speech API is the default; tests or other platforms can install their own
+ * with `setRecognizer`.
+ */
+export interface SpeechRecognizer {
+  isSupported(): boolean;
+  /** Resolves with the recognizer's guesses, best first; empty if nothing was heard. */
+  listen(lang: SpeechLang): Promise<string[]>;
+  stop(): void;
+}
+
+// Web Speech API هنوز در lib.dom تایپ‌اسکریپت نیست
+interface BrowserRecognition {
+  lang: string;
+  interimResults: boolean;
+  maxAlternatives: number;
+  onresult: ((event: { results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+const getRecognitionClass = (): (new () => BrowserRecognition) | undefined => {
+  const w = window as any;
+  return w.SpeechRecognition || w.webkitSpeechRecognition;
+};
+
+const createBrowserRecognizer = (): SpeechRecognizer => {
+  let active: BrowserRecognition | null = null;
+
+  return {
+    isSupported: () => !!getRecognitionClass(),
+
+    listen(lang: SpeechLang): Promise<string[]> {
+      const Recognition = getRecognitionClass();
+      if (!Recognition) return Promise.reject(new Error("Speech recognition is not supported"));
+      active?.abort();
+
+      return new Promise((resolve, reject) => {
+        const recognition = new Recognition();
+        active = recognition;
+        recognition.lang = speechTag(lang);
+        recognition.interimResults = false;
+        recognition.maxAlternatives = 5;
+
+        let heard: string[] = [];
+        const timer = setTimeout(() => recognition.stop(), LISTEN_TIMEOUT_MS);
+
+        recognition.onresult = (event) => {
+          const first = event.results[0];
+          heard = Array.from({ length: first?.length ?? 0 }, (_, i) => first[i].transcript);
+        };
+        recognition.onerror = (event) => {
+          clearTimeout(timer);
+          // "no-speech" و "aborted" خطا نیستند؛ فقط چیزی شنیده نشده
+          if (event.error === 'no-speech' || event.error === 'aborted') resolve([]);
+          else reject(new Error(event.error));
+        };
+        recognition.onend = () => {
+          clearTimeout(timer);
+          if (active === recognition) active = null;
+          resolve(heard);
+        };
+        recognition.start();
+      });
+    },
+
+    stop() {
+      active?.stop();
+    }
+  };
+};
+
+let recognizer: SpeechRecognizer = createBrowserRecognizer();
+
+export const getRecognizer = () => recognizer;
+
+export const setRecognizer = (next: SpeechRecognizer) => {
+  recognizer = next;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+/**
+ * How close the child got, from 0 to 1. Every guess is compared with the
+ * target as a whole and word by word, so "it's a cat" still counts for "cat".
+ */
+export const scorePronunciation = (target: string, heard: string[]): number => {
+  const goal = normalize(target);
+  if (!goal) return 0;
+  return heard.reduce((best, guess) => {
+    const text = normalize(guess);
+    const parts = [text, ...text.split(' ')];
+    return Math.max(best, ...parts.map(part => similarity(goal, part)));
+  }, 0);
+};
+
+export interface PronunciationGrade {
+  stars: 0 | 1 | 2 | 3;
+  /** Close enough to count as a correct answer in progress tracking. */
+  passed: boolean;
+  message: string;
+}
+
+export const gradePronunciation = (score: number): PronunciationGrade => {
+  if (score >= 0.9) return { stars: 3, passed: true, message: 'Perfect!' };
+  if (score >= 0.7) return { stars: 2, passed: true, message: 'Great job!' };
+  if (score >= 0.4) return { stars: 1, passed: false, message: 'So close! Try again!' };
+  return { stars: 0, passed: false, message: "Let's listen and try again!" };
+};
@@ -0,0 +1,63 @@
+import { AgeBand, HomeLang, SpeechLang } from "../types";
+import { AIError, AIErrorKind, AIProvider, GeneratedItem } from "./aiProvider";
+import { SPEECH_VOICE } from "./geminiService";
+
+const DEVICE_ID_KEY = 'kids_joy_device_id';
+const API_BASE = '/api';
+
+/** Random id the Worker uses for per-device rate limits; it says nothing about the child. */
+const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+};
+
+const KINDS: AIErrorKind[] = ['auth', 'quota', 'safety', 'network', 'timeout', 'offline', 'unknown'];
+
+const post = async <T,>(path: string, body: unknown): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Device-Id': getDeviceId() },
+      body: JSON.stringify(body),
+    });
+  } catch (e) {
+    throw new AIError('network', String(e), e);
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const kind = KINDS.find(k => k === data?.error?.kind) ?? (response.status >= 500 ? 'network' : 'unknown');
+    throw new AIError(kind, data?.error?.message || `Proxy returned ${response.status}`);
+  }
+  return data as T;
+};
+
+/**
+ * Calls our Cloudflare Worker (see `worker/`), which holds the Gemini key,
+ * applies rate limits and caches answers. Same voice as the direct Gemini
+ * provider, so saved pronunciations stay valid when switching.
+ */
+export const proxyProvider: AIProvider = {
+  id: 'proxy',
+  requiresNetwork: true,
+  speechVoice: SPEECH_VOICE,
+
+  getFunFact: async (itemName: string, categoryName: string) =>
+    (await post<{ text: string }>('fact', { itemName, categoryName })).text,
+
+  expandItems: async (categoryName: string, avoidNames: string[], lang: HomeLang, ageBand?: AgeBand) =>
+    (await post<{ items: GeneratedItem[] }>('expand', { categoryName, avoidNames, lang, ageBand })).items,
+
+  translateWords: async (words: string[], lang: HomeLang) =>
+    (await post<{ translations: string[] }>('translate', { words, lang })).translations,
+
+  generateSpeech: async (text: string, lang: SpeechLang) =>
+    (await post<{ audio?: string }>('speech', { text, lang })).audio,
+
+  generateImage: async (itemName: string, categoryName: string) =>
+    (await post<{ image?: string }>('image', { itemName, categoryName })).image,
+};
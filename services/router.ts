@@ -0,0 +1,147 @@
+import { Category, GameState, GameType } from "../types";
+import { LETTER_CATEGORY_PREFIX, letterCategory } from "./phonics";
+
+export type View = GameState['view'];
+
+/** Everything the URL remembers about where the child is. */
+export interface Route {
+  view: View;
+  categoryId?: string;
+  game?: GameType;
+  /** Card position in `learning_detail`, starting at 0. */
+  index?: number;
+}
+
+// نام ساده‌ی هر صفحه در آدرس؛ مثلاً #/learn/animals/3
+const VIEW_PATHS: Record<View, string> = {
+  main: '',
+  learning_detail: 'learn',
+  game_types: 'games',
+  game_cats: 'games',
+  game_active: 'play',
+  alphabet: 'abc',
+  persian_alphabet: 'alefba',
+  review: 'review',
+  profiles: 'profiles',
+  parent: 'parent',
+};
+
+const SESSION_PROFILE_KEY = 'kids_joy_session_profile';
+
+/** "Odd One Out" → "odd-one-out". */
+export const gameSlug = (game: GameType) => game.toLowerCase().replace(/\s+/g, '-');
+
+const parseGame = (slug: string | undefined): GameType | undefined =>
+  Object.values(GameType).find(game => gameSlug(game) === slug);
+
+export const routeToHash = ({ view, categoryId, game, index }: Route): string => {
+  const parts = [VIEW_PATHS[view]];
+  if (view === 'learning_detail' && categoryId) parts.push(encodeURIComponent(categoryId), String((index ?? 0) + 1));
+  if (view === 'game_cats' && game) parts.push(gameSlug(game));
+  if (view === 'game_active' && game && categoryId) parts.push(gameSlug(game), encodeURIComponent(categoryId));
+  return `#/${parts.filter(Boolean).join('/')}`;
+};
+
+/** Reads a hash written by `routeToHash`; anything else (an empty or mistyped hash) is `null`. */
+export const parseHash = (hash: string): Route | null => {
+  const match = hash.match(/^#\/?(.*)$/);
+  if (!match) return null;
+  let parts: string[];
+  try {
+    parts = match[1].split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (e) {
+    // مثلاً لینکی که به «%» ختم می‌شود
+    return null;
+  }
+  const [path, ...rest] = parts;
+  switch (path) {
+    case undefined: return { view: 'main' };
+    case 'learn': {
+      if (!rest[0]) return null;
+      const index = Math.max(0, (parseInt(rest[1], 10) || 1) - 1);
+      return { view: 'learning_detail', categoryId: rest[0], index };
+    }
+    case 'games': {
+      const game = parseGame(rest[0]);
+      return game ? { view: 'game_cats', game } : { view: 'game_types' };
+    }
+    case 'play': {
+      const game = parseGame(rest[0]);
+      return game && rest[1] ? { view: 'game_active', game, categoryId: rest[1] } : null;
+    }
+    case 'abc': return { view: 'alphabet' };
+    case 'alefba': return { view: 'persian_alphabet' };
+    case 'review': return { view: 'review' };
+    case 'profiles': return { view: 'profiles' };
+    case 'parent': return { view: 'parent' };
+    default: return null;
+  }
+};
+
+/** Same screen, ignoring which card is showing. */
+export const sameScreen = (a: Route, b: Route) => a.view === b.view && a.categoryId === b.categoryId && a.game === b.game;
+
+// هر ورودی تاریخچه یادش می‌ماند از کدام آدرس آمده
+interface HistoryEntryState {
+  prev?: string;
+}
+
+/** Adds a history entry for `hash`, remembering the hash it was opened from. */
+export const pushHash = (hash: string) => {
+  const state: HistoryEntryState = { prev: window.location.hash };
+  window.history.pushState(state, '', hash);
+};
+
+/** Swaps the current entry's hash; what it was opened from stays the same. */
+export const replaceHash = (hash: string) => window.history.replaceState(window.history.state, '', hash);
+
+/**
+ * Whether the entry before this one shows the same screen as `hash`, so an
+ * in-app back button can use `history.back()` instead of adding an entry.
+ */
+export const isPreviousScreen = (hash: string): boolean => {
+  const prev = (window.history.state as HistoryEntryState | null)?.prev;
+  const [from, target] = [prev === undefined ? null : parseHash(prev), parseHash(hash)];
+  return !!from && !!target && sameScreen(from, target);
+};
+
+export interface ResolvedRoute {
+  view: View;
+  /** `null` when the route doesn't name a category; keep whatever was selected. */
+  selectedCategory: Category | null;
+  selectedGame: GameType | null;
+  index: number;
+}
+
+/**
+ * Turns a route into app state. A link to a category this child doesn't
+ * have (deleted, or from another device) falls back to the home screen.
+ */
+export const resolveRoute = (route: Route, categories: Category[]): ResolvedRoute => {
+  const home: ResolvedRoute = { view: 'main', selectedCategory: null, selectedGame: null, index: 0 };
+  let category: Category | null = null;
+  if (route.categoryId) {
+    const letter = route.categoryId.startsWith(LETTER_CATEGORY_PREFIX) ? route.categoryId.slice(LETTER_CATEGORY_PREFIX.length) : '';
+    category = (/^[A-Z]$/.test(letter) ? letterCategory(letter, categories) : categories.find(c => c.id === route.categoryId)) ?? null;
+    if (!category) return home;
+  }
+  const index = Math.min(route.index ?? 0, Math.max(0, (category?.items.length ?? 1) - 1));
+  return { view: route.view, selectedCategory: category, selectedGame: route.game ?? null, index };
+};
+
+/** Which profile this tab was using, so a reload goes straight back to where the child was. */
+export const sessionProfile = {
+  get(): string | null {
+    try {
+      return sessionStorage.getItem(SESSION_PROFILE_KEY);
+    } catch (e) {
+      return null;
+    }
+  },
+
+  set(profileId: string): void {
+    try {
+      sessionStorage.setItem(SESSION_PROFILE_KEY, profileId);
+    } catch (e) { console.warn("Saving session profile failed", e); }
+  },
+};
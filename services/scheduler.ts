@@ -0,0 +1,47 @@
+import { Category, Item } from "../types";
+import { reviewStorage, ReviewRecord } from "./storage";
+import { getActiveProfileId } from "./profiles";
+
+// جعبه‌های لایتنر: هر جواب درست کارت را یک جعبه جلو می‌برد و فاصله‌ی مرور بیشتر می‌شود
+const BOX_INTERVAL_DAYS = [0, 1, 2, 4, 8, 16];
+export const MAX_BOX = BOX_INTERVAL_DAYS.length - 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const endOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+export const nextReview = (record: ReviewRecord | null, profileId: string, itemId: string, correct: boolean, now: number = Date.now()): ReviewRecord => {
+  const box = correct ? Math.min((record?.box ?? 0) + 1, MAX_BOX) : 0;
+  return {
+    profileId,
+    itemId,
+    box,
+    due: now + BOX_INTERVAL_DAYS[box] * DAY_MS,
+    lastReviewed: now,
+    correct: (record?.correct ?? 0) + (correct ? 1 : 0),
+    wrong: (record?.wrong ?? 0) + (correct ? 0 : 1),
+  };
+};
+
+export const reviewScheduler = {
+  async record(itemId: string, correct: boolean): Promise<ReviewRecord> {
+    const profileId = getActiveProfileId();
+    const updated = nextReview(await reviewStorage.get(profileId, itemId), profileId, itemId, correct);
+    await reviewStorage.put(updated);
+    return updated;
+  },
+
+  /** Items from every category that are due by the end of today, weakest box first. */
+  async getDueItems(categories: Category[], now: number = Date.now()): Promise<Item[]> {
+    const records = await reviewStorage.getAll(getActiveProfileId());
+    const itemsById = new Map(categories.flatMap(c => c.items).map(it => [it.id, it] as const));
+    const cutoff = endOfDay(now);
+    return records
+      .filter(r => r.due <= cutoff && itemsById.has(r.itemId))
+      .sort((a, b) => a.box - b.box || a.due - b.due)
+      .map(r => itemsById.get(r.itemId)!);
+  }
+};
@@ -0,0 +1,78 @@
+import { HomeLang, Item, SpeechLang } from "../types";
+import { generateSpeech, getAIProvider } from "./ai";
+import { toAIError } from "./aiProvider";
+import { playTTSSound, playLocalSpeech } from "./audioPlayer";
+import { audioStorage } from "./storage";
+import { translationOf } from "./languages";
+
+/**
+ * Fetches TTS audio for a word, preferring the copy saved in IndexedDB so a
+ * word that was heard once keeps its natural voice offline.
+ */
+const getSpeechAudio = async (text: string, lang: SpeechLang): Promise<string | undefined> => {
+  const { speechVoice, requiresNetwork } = getAIProvider();
+  const cached = await audioStorage.get(speechVoice, lang, text);
+  if (cached) return cached;
+  if (requiresNetwork && !navigator.onLine) return undefined;
+  const audio = await generateSpeech(text, lang);
+  if (audio) await audioStorage.set(speechVoice, lang, text, audio);
+  return audio;
+};
+
+// اول صدای ذخیره شده، بعد Gemini، و در آخر صدای خود مرورگر
+export const speakText = async (text: string, lang: SpeechLang = 'en'): Promise<void> => {
+  let played = false;
+  try {
+    const audio = await getSpeechAudio(text, lang);
+    if (audio) {
+      await playTTSSound(audio, `${getAIProvider().speechVoice}:${lang}:${text}`);
+      played = true;
+    }
+  } catch (e) {
+    console.warn("AI speech failed, using fallback.", e);
+  }
+  if (!played) await playLocalSpeech(text, lang);
+};
+
+/** "Say both" mode: the English word, then its name in the home language. */
+export const speakBoth = async (item: Item, lang: HomeLang): Promise<void> => {
+  await speakText(item.name, 'en');
+  const translation = translationOf(item, lang);
+  if (translation) await speakText(translation, lang);
+};
+
+export interface PrefetchProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+/** Downloads every missing pronunciation in a category, one request at a time. */
+export const prefetchPronunciations = async (
+  items: Item[],
+  onProgress: (p: PrefetchProgress) => void,
+  langs: SpeechLang[]
+): Promise<PrefetchProgress> => {
+  const jobs = items.flatMap(item => langs.map(lang => ({ lang, text: lang === 'en' ? item.name : translationOf(item, lang) })))
+    .filter(job => !!job.text);
+  const progress: PrefetchProgress = { done: 0, total: jobs.length, failed: 0 };
+  onProgress({ ...progress });
+  const { speechVoice } = getAIProvider();
+  for (const { lang, text } of jobs) {
+    try {
+      if (!(await audioStorage.has(speechVoice, lang, text))) {
+        const audio = await generateSpeech(text, lang);
+        if (audio) await audioStorage.set(speechVoice, lang, text, audio);
+        else progress.failed += 1;
+      }
+    } catch (e) {
+      // کلید نامعتبر یا قطع اینترنت برای بقیه‌ی کلمات هم تکرار می‌شود
+      const error = toAIError(e);
+      if (error.kind === 'auth' || error.kind === 'offline') throw error;
+      progress.failed += 1;
+    }
+    progress.done += 1;
+    onProgress({ ...progress });
+  }
+  return progress;
+};
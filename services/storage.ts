@@ -1,46 +1,383 @@
 
 const DB_NAME = 'KidsJoyImageStore';
-const STORE_NAME = 'images';
-const DB_VERSION = 1;
+const LEGACY_IMAGE_STORE_NAME = 'images';
+const ASSET_STORE_NAME = 'assets';
+const ASSET_META_STORE_NAME = 'asset_meta';
+const REVIEW_STORE_NAME = 'reviews';
+const EVENT_STORE_NAME = 'events';
+const DB_VERSION = 6;
+// رکوردهای مرور قبل از پروفایل‌ها به پروفایل پیش‌فرض تعلق می‌گیرند
+const LEGACY_PROFILE_ID = 'default';
+// کلیدهای قدیمی تصاویر؛ App و بازی‌ها هر کدام پیشوند خودشان را داشتند
+const LEGACY_IMAGE_PREFIXES = ['img_v11_', 'kids_joy_img_'];
+
+// وقتی مصرف فضا از این نسبت بگذرد، قدیمی‌ترین دارایی‌ها پاک می‌شوند تا به هدف برسیم
+const EVICT_AT_RATIO = 0.8;
+const EVICT_TO_RATIO = 0.7;
+
+export type AssetKind = 'image' | 'audio' | 'fact';
+
+export interface AssetRecord {
+  key: string;
+  kind: AssetKind;
+  data: string;
+}
+
+/** Size and last use of one asset, kept apart so a read never rewrites the payload. */
+export interface AssetMeta {
+  key: string;
+  kind: AssetKind;
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+  /** Can't be regenerated (a parent's photo, a pack's files), so eviction leaves it alone. */
+  pinned?: boolean;
+}
+
+export interface AssetOptions {
+  pinned?: boolean;
+}
+
+export const assetKey = (kind: AssetKind, id: string) => `${kind}:${id}`;
+
+const putAsset = (assets: IDBObjectStore, meta: IDBObjectStore, kind: AssetKind, id: string, data: string, options: AssetOptions = {}, now: number = Date.now()) => {
+  const key = assetKey(kind, id);
+  assets.put({ key, kind, data });
+  // رشته‌ها در IndexedDB به صورت UTF-16 نگه داشته می‌شوند
+  meta.put({ key, kind, size: data.length * 2, createdAt: now, lastUsed: now, pinned: !!options.pinned });
+};
+
+const upgradeSchema = (db: IDBDatabase, upgrade: IDBTransaction, oldVersion: number) => {
+  const createReviewStore = () => {
+    const store = db.createObjectStore(REVIEW_STORE_NAME, { keyPath: ['profileId', 'itemId'] });
+    store.createIndex('profileId', 'profileId');
+    return store;
+  };
+  if (!db.objectStoreNames.contains(REVIEW_STORE_NAME)) {
+    createReviewStore();
+  } else if (oldVersion < 3) {
+    // v2 keyed reviews by itemId alone; keyPath cannot change in place
+    const legacy = upgrade.objectStore(REVIEW_STORE_NAME).getAll();
+    legacy.onsuccess = () => {
+      db.deleteObjectStore(REVIEW_STORE_NAME);
+      const store = createReviewStore();
+      legacy.result.forEach((record: Omit<ReviewRecord, 'profileId'>) => store.put({ ...record, profileId: LEGACY_PROFILE_ID }));
+    };
+  }
+
+  if (!db.objectStoreNames.contains(EVENT_STORE_NAME)) {
+    const events = db.createObjectStore(EVENT_STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    events.createIndex('profileId', 'profileId');
+  }
+
+  const hadAssets = db.objectStoreNames.contains(ASSET_STORE_NAME);
+  if (!hadAssets) {
+    const assets = db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'key' });
+    assets.createIndex('kind', 'kind');
+  }
+
+  if (!db.objectStoreNames.contains(ASSET_META_STORE_NAME)) {
+    const meta = db.createObjectStore(ASSET_META_STORE_NAME, { keyPath: 'key' });
+    meta.createIndex('lastUsed', 'lastUsed');
+    if (hadAssets) {
+      // v6: size and lastUsed move out of the asset records into their own store
+      const assets = upgrade.objectStore(ASSET_STORE_NAME);
+      if (assets.indexNames.contains('lastUsed')) assets.deleteIndex('lastUsed');
+      const cursorRequest = assets.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const { key, kind, data, size, createdAt, lastUsed } = cursor.value;
+        meta.put({ key, kind, size, createdAt, lastUsed });
+        cursor.update({ key, kind, data });
+        cursor.continue();
+      };
+    }
+  }
+
+  // v5: the old key/value image store moves into the typed asset store
+  if (db.objectStoreNames.contains(LEGACY_IMAGE_STORE_NAME)) {
+    const assets = upgrade.objectStore(ASSET_STORE_NAME);
+    const meta = upgrade.objectStore(ASSET_META_STORE_NAME);
+    const cursorRequest = upgrade.objectStore(LEGACY_IMAGE_STORE_NAME).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        db.deleteObjectStore(LEGACY_IMAGE_STORE_NAME);
+        return;
+      }
+      const oldKey = String(cursor.key);
+      const prefix = LEGACY_IMAGE_PREFIXES.find(p => oldKey.startsWith(p));
+      if (prefix && typeof cursor.value === 'string') {
+        putAsset(assets, meta, 'image', oldKey.slice(prefix.length), cursor.value);
+      }
+      cursor.continue();
+    };
+  }
+};
 
 const getDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
-    request.onupgradeneeded = () => {
-      const db = request.result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
-    };
+    request.onupgradeneeded = (event) => upgradeSchema(request.result, request.transaction!, event.oldVersion);
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
 
-export const imageStorage = {
-  async set(key: string, value: string): Promise<void> {
-    try {
-      const db = await getDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.put(value, key);
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/** Runs `run` in one transaction over `storeNames` and settles when that transaction completes. */
+const withStores = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    run(transaction);
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const deleteByIndex = async (storeName: string, indexName: string, value: IDBValidKey): Promise<void> => {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor(value);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+let evictionRunning = false;
+
+export const assetStore = {
+  async get(kind: AssetKind, id: string): Promise<string | null> {
+    try {
+      const record = await withStore<AssetRecord | undefined>(ASSET_STORE_NAME, 'readonly', s => s.get(assetKey(kind, id)));
+      if (!record) return null;
+      withStores([ASSET_META_STORE_NAME], 'readwrite', t => {
+        const meta = t.objectStore(ASSET_META_STORE_NAME);
+        const request = meta.get(record.key);
+        request.onsuccess = () => { if (request.result) meta.put({ ...request.result, lastUsed: Date.now() }); };
+      }).catch(() => {});
+      return record.data;
+    } catch (e) { return null; }
+  },
+
+  async has(kind: AssetKind, id: string): Promise<boolean> {
+    try {
+      return (await withStore<number>(ASSET_STORE_NAME, 'readonly', s => s.count(assetKey(kind, id)))) > 0;
+    } catch (e) { return false; }
+  },
+
+  async set(kind: AssetKind, id: string, data: string, options: AssetOptions = {}): Promise<void> {
+    try {
+      await withStores([ASSET_STORE_NAME, ASSET_META_STORE_NAME], 'readwrite', t =>
+        putAsset(t.objectStore(ASSET_STORE_NAME), t.objectStore(ASSET_META_STORE_NAME), kind, id, data, options));
+      assetStore.evictIfNeeded();
+    } catch (e) { console.warn("Asset set failed", e); }
+  },
+
+  /** Keeps an asset that is already stored out of eviction, e.g. when a pack ships a file the device has. */
+  async pin(kind: AssetKind, id: string): Promise<void> {
+    try {
+      await withStores([ASSET_META_STORE_NAME], 'readwrite', t => {
+        const meta = t.objectStore(ASSET_META_STORE_NAME);
+        const request = meta.get(assetKey(kind, id));
+        request.onsuccess = () => { if (request.result) meta.put({ ...request.result, pinned: true }); };
       });
-    } catch (e) { console.warn("Storage set failed", e); }
+    } catch (e) { console.warn("Asset pin failed", e); }
   },
 
-  async get(key: string): Promise<string | null> {
+  async remove(kind: AssetKind, id: string): Promise<void> {
     try {
-      const db = await getDB();
-      return new Promise((resolve, reject) => {
-        const transaction = db.transaction(STORE_NAME, 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.get(key);
-        request.onsuccess = () => resolve(request.result || null);
-        request.onerror = () => reject(request.error);
+      await withStores([ASSET_STORE_NAME, ASSET_META_STORE_NAME], 'readwrite', t => {
+        t.objectStore(ASSET_STORE_NAME).delete(assetKey(kind, id));
+        t.objectStore(ASSET_META_STORE_NAME).delete(assetKey(kind, id));
       });
+    } catch (e) { console.warn("Asset remove failed", e); }
+  },
+
+  /** Removes every asset of `kind` whose id starts with `idPrefix`. */
+  async removePrefix(kind: AssetKind, idPrefix: string): Promise<void> {
+    const prefix = assetKey(kind, idPrefix);
+    const range = IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+    try {
+      await withStores([ASSET_STORE_NAME, ASSET_META_STORE_NAME], 'readwrite', t => {
+        t.objectStore(ASSET_STORE_NAME).delete(range);
+        t.objectStore(ASSET_META_STORE_NAME).delete(range);
+      });
+    } catch (e) { console.warn("Asset remove failed", e); }
+  },
+
+  /**
+   * Least-recently-used eviction. Only runs when the browser reports that the
+   * origin is close to its quota; built-in content never lives here and pinned
+   * assets are skipped, so every evicted asset can be regenerated. Walks the small metadata records
+   * oldest first and deletes as it goes, so payloads are never loaded.
+   */
+  async evictIfNeeded(): Promise<number> {
+    if (evictionRunning || !navigator.storage?.estimate) return 0;
+    evictionRunning = true;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      if (!quota || usage / quota < EVICT_AT_RATIO) return 0;
+      let toFree = usage - quota * EVICT_TO_RATIO;
+      let evicted = 0;
+      await withStores([ASSET_STORE_NAME, ASSET_META_STORE_NAME], 'readwrite', t => {
+        const assets = t.objectStore(ASSET_STORE_NAME);
+        const request = t.objectStore(ASSET_META_STORE_NAME).index('lastUsed').openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || toFree <= 0) return;
+          const meta: AssetMeta = cursor.value;
+          if (meta.pinned) return cursor.continue();
+          assets.delete(meta.key);
+          cursor.delete();
+          toFree -= meta.size;
+          evicted += 1;
+          cursor.continue();
+        };
+      });
+      return evicted;
+    } catch (e) {
+      console.warn("Asset eviction failed", e);
+      return 0;
+    } finally {
+      evictionRunning = false;
+    }
+  }
+};
+
+// عکس والد فقط مال همان کودک است؛ شناسه‌ی کلمه‌های داخلی (مثل apple) در همه‌ی پروفایل‌ها یکی است
+let photoProfileId = 'default';
+const photoPrefix = (profileId: string) => `photo:${profileId}:`;
+const photoId = (itemId: string) => `${photoPrefix(photoProfileId)}${itemId}`;
+
+/**
+ * Pictures by item id. Generated and pack images are shared by every profile;
+ * a parent's photo belongs to the active profile and is shown instead of them.
+ */
+export const imageStorage = {
+  /** Called by `profileStore.activate`; photos are read and written for this profile. */
+  useProfile(profileId: string) {
+    photoProfileId = profileId;
+  },
+  set: (itemId: string, dataUrl: string, options?: AssetOptions) => assetStore.set('image', itemId, dataUrl, options),
+  async get(itemId: string): Promise<string | null> {
+    return (await assetStore.get('image', photoId(itemId))) ?? assetStore.get('image', itemId);
+  },
+  async has(itemId: string): Promise<boolean> {
+    return (await assetStore.has('image', photoId(itemId))) || assetStore.has('image', itemId);
+  },
+  /** The shared image only; check `assetsInUse` first, other profiles may show it. */
+  remove: (itemId: string) => assetStore.remove('image', itemId),
+  setPhoto: (itemId: string, dataUrl: string) => assetStore.set('image', photoId(itemId), dataUrl, { pinned: true }),
+  removePhoto: (itemId: string) => assetStore.remove('image', photoId(itemId)),
+  removeProfilePhotos: (profileId: string) => assetStore.removePrefix('image', photoPrefix(profileId)),
+};
+
+// صدای تولید شده به ازای هر صدا (voice)، زبان و متن ذخیره می‌شود
+export const audioAssetId = (voice: string, lang: string, text: string) => `${voice}:${lang}:${text.trim().toLowerCase()}`;
+
+export const audioStorage = {
+  set: (voice: string, lang: string, text: string, pcmBase64: string, options?: AssetOptions) => assetStore.set('audio', audioAssetId(voice, lang, text), pcmBase64, options),
+  get: (voice: string, lang: string, text: string) => assetStore.get('audio', audioAssetId(voice, lang, text)),
+  has: (voice: string, lang: string, text: string) => assetStore.has('audio', audioAssetId(voice, lang, text)),
+};
+
+export const factStorage = {
+  set: (itemId: string, fact: string) => assetStore.set('fact', itemId, fact),
+  get: (itemId: string) => assetStore.get('fact', itemId),
+};
+
+export interface ReviewRecord {
+  profileId: string;
+  itemId: string;
+  box: number;
+  due: number;
+  lastReviewed: number;
+  correct: number;
+  wrong: number;
+}
+
+export const reviewStorage = {
+  async put(record: ReviewRecord): Promise<void> {
+    try {
+      await withStore(REVIEW_STORE_NAME, 'readwrite', s => s.put(record));
+    } catch (e) { console.warn("Review storage put failed", e); }
+  },
+
+  async get(profileId: string, itemId: string): Promise<ReviewRecord | null> {
+    try {
+      return (await withStore<ReviewRecord | undefined>(REVIEW_STORE_NAME, 'readonly', s => s.get([profileId, itemId]))) || null;
     } catch (e) { return null; }
+  },
+
+  async getAll(profileId: string): Promise<ReviewRecord[]> {
+    try {
+      return await withStore<ReviewRecord[]>(REVIEW_STORE_NAME, 'readonly', s => s.index('profileId').getAll(profileId));
+    } catch (e) { return []; }
+  },
+
+  async clearProfile(profileId: string): Promise<void> {
+    try {
+      await deleteByIndex(REVIEW_STORE_NAME, 'profileId', profileId);
+    } catch (e) { console.warn("Review storage clear failed", e); }
+  }
+};
+
+export type LearningEventType = 'viewed' | 'spoken' | 'answered';
+
+export interface LearningEvent {
+  id?: number;
+  profileId: string;
+  type: LearningEventType;
+  itemId: string;
+  categoryId?: string;
+  gameType?: string;
+  correct?: boolean;
+  ts: number;
+}
+
+export const eventStorage = {
+  async add(event: LearningEvent): Promise<void> {
+    try {
+      await withStore(EVENT_STORE_NAME, 'readwrite', s => s.add(event));
+    } catch (e) { console.warn("Event storage add failed", e); }
+  },
+
+  async getAll(profileId: string): Promise<LearningEvent[]> {
+    try {
+      return await withStore<LearningEvent[]>(EVENT_STORE_NAME, 'readonly', s => s.index('profileId').getAll(profileId));
+    } catch (e) { return []; }
+  },
+
+  async clearProfile(profileId: string): Promise<void> {
+    try {
+      await deleteByIndex(EVENT_STORE_NAME, 'profileId', profileId);
+    } catch (e) { console.warn("Event storage clear failed", e); }
   }
 };
@@ -0,0 +1,159 @@
+import { profileKey } from "./profiles";
+
+/** A point in the 100×100 tracing box: x to the right, y down. */
+export type Point = [number, number];
+export type Stroke = Point[];
+export type LetterCase = 'upper' | 'lower';
+
+// خطوط راهنما مثل دفتر مشق: بالای حروف بزرگ، خط میانی، خط زمینه
+export const GUIDE_LINES = { top: 10, middle: 47.5, base: 85 };
+
+const line = (x1: number, y1: number, x2: number, y2: number): Stroke => [[x1, y1], [x2, y2]];
+
+/** Points on an ellipse; angles in degrees, 0 = right, 90 = down, so a growing angle runs clockwise on screen. */
+const arc = (cx: number, cy: number, rx: number, ry: number, from: number, to: number): Stroke => {
+  const steps = Math.max(2, Math.ceil(Math.abs(to - from) / 15));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const rad = ((from + ((to - from) * i) / steps) * Math.PI) / 180;
+    return [cx + rx * Math.cos(rad), cy + ry * Math.sin(rad)] as Point;
+  });
+};
+
+const path = (...parts: Stroke[]): Stroke => parts.flat();
+const dot = (x: number, y: number): Stroke => [[x, y]];
+
+/** Stroke order for every letter, each stroke drawn from its first point to its last. */
+export const LETTER_STROKES: Record<string, Record<LetterCase, Stroke[]>> = {
+  A: { upper: [line(50, 10, 25, 85), line(50, 10, 75, 85), line(34, 58, 66, 58)], lower: [arc(48, 66.25, 18, 18.75, -20, -380), line(66, 47.5, 66, 85)] },
+  B: { upper: [line(30, 10, 30, 85), path([[30, 10]], arc(52, 28.75, 16, 18.75, -90, 90), [[30, 47.5]]), path([[30, 47.5]], arc(54, 66.25, 18, 18.75, -90, 90), [[30, 85]])], lower: [line(32, 10, 32, 85), arc(50, 66.25, 18, 18.75, -180, 180)] },
+  C: { upper: [arc(52, 47.5, 27, 37.5, -40, -320)], lower: [arc(50, 66.25, 18, 18.75, -40, -320)] },
+  D: { upper: [line(30, 10, 30, 85), path([[30, 10]], arc(42, 47.5, 30, 37.5, -90, 90), [[30, 85]])], lower: [arc(48, 66.25, 18, 18.75, 0, -360), line(66, 10, 66, 85)] },
+  E: { upper: [line(30, 10, 30, 85), line(30, 10, 70, 10), line(30, 47.5, 62, 47.5), line(30, 85, 70, 85)], lower: [path(line(32, 66.25, 68, 66.25), arc(50, 66.25, 18, 18.75, 0, -320))] },
+  F: { upper: [line(30, 10, 30, 85), line(30, 10, 70, 10), line(30, 47.5, 62, 47.5)], lower: [path(arc(58, 22, 10, 12, -30, -180), [[48, 85]]), line(36, 47.5, 62, 47.5)] },
+  G: { upper: [path(arc(52, 47.5, 27, 37.5, -40, -360), [[56, 47.5]])], lower: [arc(48, 66.25, 18, 18.75, 0, -360), path(line(66, 47.5, 66, 90), arc(52, 90, 14, 10, 0, 160))] },
+  H: { upper: [line(28, 10, 28, 85), line(72, 10, 72, 85), line(28, 47.5, 72, 47.5)], lower: [line(32, 10, 32, 85), path(arc(50, 62, 18, 14.5, 180, 360), [[68, 85]])] },
+  I: { upper: [line(50, 10, 50, 85), line(35, 10, 65, 10), line(35, 85, 65, 85)], lower: [line(50, 47.5, 50, 85), dot(50, 32)] },
+  J: { upper: [path(line(65, 10, 65, 65), arc(47, 65, 18, 20, 0, 180))], lower: [path(line(56, 47.5, 56, 90), arc(44, 90, 12, 10, 0, 170)), dot(56, 32)] },
+  K: { upper: [line(30, 10, 30, 85), line(72, 10, 30, 55), line(42, 44, 72, 85)], lower: [line(32, 10, 32, 85), line(66, 47.5, 32, 70), line(44, 63, 68, 85)] },
+  L: { upper: [path(line(30, 10, 30, 85), [[70, 85]])], lower: [line(50, 10, 50, 85)] },
+  M: { upper: [line(22, 10, 22, 85), path([[22, 10]], [[50, 60]], [[78, 10]]), line(78, 10, 78, 85)], lower: [line(22, 47.5, 22, 85), path(arc(34, 60, 12, 12.5, 180, 360), [[46, 85]]), path(arc(58, 60, 12, 12.5, 180, 360), [[70, 85]])] },
+  N: { upper: [line(25, 10, 25, 85), line(25, 10, 75, 85), line(75, 85, 75, 10)], lower: [line(30, 47.5, 30, 85), path(arc(49, 62, 19, 14.5, 180, 360), [[68, 85]])] },
+  O: { upper: [arc(50, 47.5, 28, 37.5, -90, -450)], lower: [arc(50, 66.25, 18, 18.75, -90, -450)] },
+  P: { upper: [line(30, 10, 30, 85), path([[30, 10]], arc(50, 29, 20, 19, -90, 90), [[30, 48]])], lower: [line(32, 47.5, 32, 100), arc(50, 66.25, 18, 18.75, -180, 180)] },
+  Q: { upper: [arc(50, 47.5, 28, 37.5, -90, -450), line(56, 66, 78, 90)], lower: [arc(48, 66.25, 18, 18.75, 0, -360), line(66, 47.5, 66, 100)] },
+  R: { upper: [line(30, 10, 30, 85), path([[30, 10]], arc(50, 29, 20, 19, -90, 90), [[30, 48]]), line(48, 48, 72, 85)], lower: [line(36, 47.5, 36, 85), arc(52, 62, 16, 14.5, 180, 300)] },
+  S: { upper: [path(arc(50, 28.75, 20, 18.75, -30, -270), arc(50, 66.25, 20, 18.75, -90, 150))], lower: [path(arc(50, 56.875, 15, 9.375, -30, -270), arc(50, 75.625, 15, 9.375, -90, 150))] },
+  T: { upper: [line(22, 10, 78, 10), line(50, 10, 50, 85)], lower: [line(46, 20, 46, 85), line(34, 47.5, 62, 47.5)] },
+  U: { upper: [path(line(28, 10, 28, 60), arc(50, 60, 22, 25, 180, 0), [[72, 10]])], lower: [path(line(32, 47.5, 32, 70), arc(49, 70, 17, 15, 180, 0)), line(66, 47.5, 66, 85)] },
+  V: { upper: [path([[25, 10]], [[50, 85]], [[75, 10]])], lower: [path([[28, 47.5]], [[50, 85]], [[72, 47.5]])] },
+  W: { upper: [path([[18, 10]], [[34, 85]], [[50, 35]], [[66, 85]], [[82, 10]])], lower: [path([[18, 47.5]], [[34, 85]], [[50, 58]], [[66, 85]], [[82, 47.5]])] },
+  X: { upper: [line(25, 10, 75, 85), line(75, 10, 25, 85)], lower: [line(30, 47.5, 70, 85), line(70, 47.5, 30, 85)] },
+  Y: { upper: [line(25, 10, 50, 47.5), line(75, 10, 50, 47.5), line(50, 47.5, 50, 85)], lower: [line(30, 47.5, 50, 85), line(70, 47.5, 38, 100)] },
+  Z: { upper: [path([[25, 10]], [[75, 10]], [[25, 85]], [[75, 85]])], lower: [path([[30, 47.5]], [[70, 47.5]], [[30, 85]], [[70, 85]])] },
+};
+
+/** Evenly spaced points along a stroke, so long and short segments count the same. */
+export const resample = (stroke: Stroke, spacing = 2): Stroke => {
+  if (stroke.length < 2) return stroke;
+  const out: Stroke = [stroke[0]];
+  for (let i = 1; i < stroke.length; i++) {
+    const [x1, y1] = stroke[i - 1];
+    const [x2, y2] = stroke[i];
+    const steps = Math.max(1, Math.round(Math.hypot(x2 - x1, y2 - y1) / spacing));
+    for (let s = 1; s <= steps; s++) out.push([x1 + ((x2 - x1) * s) / steps, y1 + ((y2 - y1) * s) / steps]);
+  }
+  return out;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+const nearestIndex = (p: Point, samples: Stroke) =>
+  samples.reduce((best, s, i) => (distance(p, s) < distance(p, samples[best]) ? i : best), 0);
+
+// فاصله‌ی مجاز انگشت از خط راهنما، در واحد جعبه‌ی ۱۰۰تایی
+const TOLERANCE = 9;
+const MIN_STROKE_COVERAGE = 0.7;
+const MIN_COVERAGE = 0.8;
+const MAX_STRAY_INK = 0.3;
+// خط‌خطی کردن کل صفحه هم همه‌جا را می‌پوشاند، پس طول جوهر هم محدود است
+const MAX_INK_LENGTH = 2.2;
+
+export type TraceProblem = 'empty' | 'coverage' | 'direction' | 'messy';
+
+export interface TraceResult {
+  passed: boolean;
+  /** Share of the guide the child's ink covered, 0..1. */
+  coverage: number;
+  problem: TraceProblem | null;
+  /** Index of the guide stroke the problem is about, for highlighting its hint. */
+  strokeIndex: number | null;
+}
+
+/**
+ * Compares the child's ink with the guide: every stroke must be mostly
+ * covered, most ink must stay near the letter, and each stroke must be
+ * drawn from its numbered start towards its end.
+ */
+export const checkTrace = (guide: Stroke[], drawn: Stroke[]): TraceResult => {
+  const ink = drawn.map(s => resample(s)).filter(s => s.length > 0);
+  const inkPoints = ink.flat();
+  if (inkPoints.length === 0) return { passed: false, coverage: 0, problem: 'empty', strokeIndex: null };
+
+  const samples = guide.map(s => resample(s));
+  const guidePoints = samples.flat();
+  const strokeCoverage = samples.map(stroke => stroke.filter(p => inkPoints.some(q => distance(p, q) <= TOLERANCE)).length / stroke.length);
+  const coverage = guidePoints.filter(p => inkPoints.some(q => distance(p, q) <= TOLERANCE)).length / guidePoints.length;
+  const result = (problem: TraceProblem | null, strokeIndex: number | null = null): TraceResult =>
+    ({ passed: problem === null, coverage, problem, strokeIndex });
+
+  const weakest = strokeCoverage.indexOf(Math.min(...strokeCoverage));
+  if (coverage < MIN_COVERAGE || strokeCoverage[weakest] < MIN_STROKE_COVERAGE) return result('coverage', weakest);
+
+  const stray = inkPoints.filter(q => guidePoints.every(p => distance(p, q) > TOLERANCE * 1.5)).length / inkPoints.length;
+  if (stray > MAX_STRAY_INK || inkPoints.length > guidePoints.length * MAX_INK_LENGTH) return result('messy');
+
+  for (let g = 0; g < samples.length; g++) {
+    const stroke = samples[g];
+    if (stroke.length < 2) continue; // نقطه‌ها جهت ندارند
+    // خطی از کودک که بیشترین بخش این خط راهنما را پوشانده است؛ در حالت نزدیک، خطی با همان شماره
+    const covered = ink.map((s, i) => stroke.filter(p => s.some(q => distance(p, q) <= TOLERANCE)).length + (i === g ? stroke.length * 0.15 : 0));
+    const best = covered.reduce((b, count, i) => (count > covered[b] ? i : b), 0);
+    const near = ink[best].filter(q => stroke.some(p => distance(p, q) <= TOLERANCE));
+    let forward = 0;
+    let backward = 0;
+    near.map(q => nearestIndex(q, stroke)).forEach((index, i, all) => {
+      const step = i === 0 ? 0 : index - all[i - 1];
+      // پرش‌های بزرگ (مثلاً شروع از وسط یک دایره) حساب نمی‌شوند
+      if (Math.abs(step) > stroke.length / 2) return;
+      if (step > 0) forward += step;
+      if (step < 0) backward -= step;
+    });
+    if (backward > forward) return result('direction', g);
+  }
+  return result(null);
+};
+
+export type LetterMastery = Record<string, Partial<Record<LetterCase, number>>>;
+
+const readMastery = (): LetterMastery => {
+  try {
+    return JSON.parse(localStorage.getItem(profileKey('letters')) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const letterMastery = {
+  /** When each letter and case was first traced correctly. */
+  get(): LetterMastery {
+    return readMastery();
+  },
+
+  record(letter: string, letterCase: LetterCase): LetterMastery {
+    const mastery = readMastery();
+    const entry = mastery[letter] ?? {};
+    if (entry[letterCase]) return mastery;
+    const next = { ...mastery, [letter]: { ...entry, [letterCase]: Date.now() } };
+    localStorage.setItem(profileKey('letters'), JSON.stringify(next));
+    return next;
+  },
+};
@@ -0,0 +1,38 @@
+import { Category, HomeLang, Item } from "../types";
+import { translateWords } from "./ai";
+import { isInScript, translationOf } from "./languages";
+
+// هر درخواست حداکثر این تعداد کلمه؛ پاسخ کوتاه‌تر کمتر خراب می‌شود
+const BATCH_SIZE = 40;
+
+export const countMissingTranslations = (categories: Category[], lang: HomeLang): number =>
+  categories.reduce((n, c) => n + c.items.filter(it => !translationOf(it, lang)).length, 0);
+
+/**
+ * Asks the AI for the `lang` name of every item that has none, each English
+ * word once. Returns item id → translation; answers in the wrong script are
+ * dropped rather than shown to a child, so those items stay missing.
+ */
+export const translateMissing = async (items: Item[], lang: HomeLang): Promise<Map<string, string>> => {
+  const missing = items.filter(it => !translationOf(it, lang));
+  const words = [...new Set(missing.map(it => it.name))];
+  const byWord = new Map<string, string>();
+  for (let i = 0; i < words.length; i += BATCH_SIZE) {
+    const batch = words.slice(i, i + BATCH_SIZE);
+    const results = await translateWords(batch, lang);
+    batch.forEach((word, j) => {
+      const text = results[j]?.trim() || '';
+      if (isInScript(text, lang)) byWord.set(word, text);
+    });
+  }
+  return new Map(missing.filter(it => byWord.has(it.name)).map(it => [it.id, byWord.get(it.name)!] as const));
+};
+
+/** Adds translations from `translateMissing` without touching any the parent typed in meanwhile. */
+export const withTranslations = (categories: Category[], translated: Map<string, string>, lang: HomeLang): Category[] =>
+  categories.map(c => (!c.items.some(it => translated.has(it.id)) ? c : {
+    ...c,
+    items: c.items.map(it => (translated.has(it.id) && !translationOf(it, lang)
+      ? { ...it, translations: { ...it.translations, [lang]: translated.get(it.id)! } }
+      : it)),
+  }));
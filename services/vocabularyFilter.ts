@@ -0,0 +1,208 @@
+import { Category, HomeLang, Item } from "../types";
+import { GeneratedItem } from "./aiProvider";
+import { expandCategoryItems, toDynamicItem } from "./ai";
+import { AgeBand, profileKey } from "./profiles";
+import { DEFAULT_HOME_LANG, isHomeLang, isInScript } from "./languages";
+
+export type RejectionReason = 'duplicate' | 'invalid' | 'missing_translation' | 'wrong_script' | 'bad_emoji' | 'blocked' | 'too_hard';
+
+export const REJECTION_LABELS: Record<RejectionReason, string> = {
+  duplicate: 'Already in the app',
+  invalid: 'Not a usable word',
+  missing_translation: 'No translation',
+  wrong_script: 'Translation is in the wrong alphabet',
+  bad_emoji: 'Emoji is missing or not a single emoji',
+  blocked: 'On the blocked-words list',
+  too_hard: 'Too long for this age',
+};
+
+/** A suggestion the filter turned down, kept until a parent approves or dismisses it. */
+export interface ReviewEntry {
+  id: string;
+  categoryId: string;
+  item: GeneratedItem;
+  /** The home language `item.translation` is in. */
+  lang: HomeLang;
+  reason: RejectionReason;
+  createdAt: number;
+}
+
+export interface ValidationResult {
+  accepted: GeneratedItem[];
+  rejected: { item: GeneratedItem; reason: RejectionReason }[];
+}
+
+interface AgeRule {
+  maxLength: number;
+  maxWords: number;
+  /** Words that are fine for older kids but can frighten little ones. */
+  blocked: string[];
+}
+
+// برای هر گروه سنی طول کلمه و کلمات نامناسب جداگانه تنظیم می‌شود
+const AGE_RULES: Record<AgeBand, AgeRule> = {
+  '2-4': { maxLength: 9, maxWords: 1, blocked: ['ghost', 'skeleton', 'skull', 'monster', 'zombie', 'vampire', 'shark', 'spider', 'snake', 'witch'] },
+  '5-7': { maxLength: 14, maxWords: 2, blocked: ['skull', 'zombie', 'vampire'] },
+  '8-10': { maxLength: 20, maxWords: 3, blocked: [] },
+};
+
+const DEFAULT_BLOCKLIST = [
+  'gun', 'rifle', 'pistol', 'bullet', 'bomb', 'grenade', 'knife', 'sword', 'weapon', 'blood', 'kill', 'dead', 'death', 'war',
+  'beer', 'wine', 'alcohol', 'vodka', 'cigarette', 'cigar', 'tobacco', 'vape', 'drug', 'pill', 'syringe', 'casino', 'gamble',
+];
+
+const BLOCKLIST_KEY = 'kids_joy_blocklist';
+const TARGET_NEW_ITEMS = 10;
+const MAX_ATTEMPTS = 3;
+
+const PICTOGRAPHIC = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+
+/** Lower case, no punctuation and a naive singular, so "Apples", "apple!" and "APPLE" all compare equal. */
+export const normalizeWord = (name: string): string => {
+  const clean = name.toLowerCase().normalize('NFKC').replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+  return clean.split(' ').map(word => {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 4 && /(ches|shes|sses|xes|zes|oes)$/.test(word)) return word.slice(0, -2);
+    if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+    return word;
+  }).join(' ');
+};
+
+export const isSingleEmoji = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (!trimmed || !PICTOGRAPHIC.test(trimmed)) return false;
+  const graphemes = [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(trimmed)];
+  return graphemes.length === 1;
+};
+
+export const blocklist = {
+  /** Words the parent added on top of the built-in list. */
+  loadCustom(): string[] {
+    try {
+      return JSON.parse(localStorage.getItem(BLOCKLIST_KEY) || '[]');
+    } catch (e) {
+      return [];
+    }
+  },
+
+  saveCustom(words: string[]): void {
+    const clean = [...new Set(words.map(normalizeWord).filter(Boolean))];
+    localStorage.setItem(BLOCKLIST_KEY, JSON.stringify(clean));
+  },
+};
+
+const isBlocked = (name: string, blocked: Set<string>) => {
+  const normalized = normalizeWord(name);
+  return normalized.split(' ').some(word => blocked.has(word)) || blocked.has(normalized);
+};
+
+/**
+ * Checks AI suggestions before they reach a child: shape, duplicates against
+ * every category (and each other), emoji, translation script, blocklist and age.
+ */
+export const validateGeneratedItems = (candidates: unknown[], categories: Category[], ageBand: AgeBand, lang: HomeLang): ValidationResult => {
+  const rule = AGE_RULES[ageBand];
+  const blocked = new Set([...DEFAULT_BLOCKLIST, ...rule.blocked, ...blocklist.loadCustom()].map(normalizeWord));
+  const seen = new Set(categories.flatMap(c => c.items).map(it => normalizeWord(it.name)));
+  const result: ValidationResult = { accepted: [], rejected: [] };
+
+  candidates.forEach((raw: any) => {
+    if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) return;
+    const item: GeneratedItem = {
+      name: raw.name.trim().replace(/\s+/g, ' '),
+      translation: typeof raw.translation === 'string' ? raw.translation.trim() : '',
+      emoji: typeof raw.emoji === 'string' ? raw.emoji.trim() : '',
+    };
+    const key = normalizeWord(item.name);
+    const reject = (reason: RejectionReason) => result.rejected.push({ item, reason });
+
+    if (!key || !/^[\p{L}\s'-]+$/u.test(item.name)) return reject('invalid');
+    if (seen.has(key)) return reject('duplicate');
+    seen.add(key);
+    if (isBlocked(item.name, blocked)) return reject('blocked');
+    if (!item.translation) return reject('missing_translation');
+    if (!isInScript(item.translation, lang)) return reject('wrong_script');
+    if (!isSingleEmoji(item.emoji)) return reject('bad_emoji');
+    if (item.name.length > rule.maxLength || key.split(' ').length > rule.maxWords) return reject('too_hard');
+    result.accepted.push(item);
+  });
+
+  return result;
+};
+
+// صف‌های قدیمی فقط فارسی داشتند: persianName و not_persian
+const upgradeEntry = (entry: any): ReviewEntry => ({
+  ...entry,
+  item: { name: entry.item?.name ?? '', translation: entry.item?.translation ?? entry.item?.persianName ?? '', emoji: entry.item?.emoji ?? '' },
+  lang: isHomeLang(entry.lang) ? entry.lang : DEFAULT_HOME_LANG,
+  reason: entry.reason === 'not_persian' ? 'wrong_script' : entry.reason,
+});
+
+const readQueue = (): ReviewEntry[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(profileKey('review_queue')) || '[]');
+    return Array.isArray(entries) ? entries.map(upgradeEntry) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeQueue = (entries: ReviewEntry[]) => {
+  localStorage.setItem(profileKey('review_queue'), JSON.stringify(entries));
+};
+
+export const reviewQueue = {
+  list(): ReviewEntry[] {
+    return readQueue();
+  },
+
+  add(categoryId: string, lang: HomeLang, rejected: ValidationResult['rejected']): void {
+    const now = Date.now();
+    const entries = rejected.map((r, i) => ({ id: `rq-${now}-${i}`, categoryId, item: r.item, lang, reason: r.reason, createdAt: now }));
+    writeQueue([...readQueue(), ...entries]);
+  },
+
+  /** Removes the entry and returns it so the caller can add the word to its category. */
+  take(entryId: string): ReviewEntry | undefined {
+    const queue = readQueue();
+    const entry = queue.find(e => e.id === entryId);
+    writeQueue(queue.filter(e => e.id !== entryId));
+    return entry;
+  },
+};
+
+export interface SafeExpansion {
+  items: Item[];
+  /** Sent to the parent review queue. */
+  queued: number;
+  /** Already in the app; not worth a parent's time. */
+  duplicates: number;
+}
+
+/**
+ * Asks the AI for new words for `category` and keeps asking (up to a few
+ * times) until enough of them pass `validateGeneratedItems`.
+ */
+export const expandCategorySafely = async (category: Category, categories: Category[], ageBand: AgeBand, lang: HomeLang): Promise<SafeExpansion> => {
+  const accepted: GeneratedItem[] = [];
+  const rejected: ValidationResult['rejected'] = [];
+  for (let attempt = 0; attempt < MAX_ATTEMPTS && accepted.length < TARGET_NEW_ITEMS; attempt++) {
+    const avoid = [...category.items, ...accepted, ...rejected.map(r => r.item)].map(it => it.name);
+    const response = await expandCategoryItems(category.name, avoid, lang, ageBand);
+    const suggestions: unknown[] = Array.isArray(response) ? response : [];
+    // پیشنهادهای تأیید شده‌ی قبلی هم در بررسی تکراری بودن حساب می‌شوند
+    const known: Category[] = [...categories, { ...category, id: '_accepted', items: accepted.map((it, i) => toDynamicItem(category.name, it, i, lang)) }];
+    const result = validateGeneratedItems(suggestions, known, ageBand, lang);
+    accepted.push(...result.accepted.slice(0, TARGET_NEW_ITEMS - accepted.length));
+    rejected.push(...result.rejected);
+    if (suggestions.length === 0) break;
+  }
+
+  const forReview = rejected.filter(r => r.reason !== 'duplicate');
+  if (forReview.length > 0) reviewQueue.add(category.id, lang, forReview);
+  return {
+    items: accepted.map((it, i) => toDynamicItem(category.name, it, i, lang)),
+    queued: forReview.length,
+    duplicates: rejected.length - forReview.length,
+  };
+};
@@ -0,0 +1,9 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  // constants.tsx holds the category colour classes, so it has to be scanned too
+  content: ['./index.html', './*.{ts,tsx}', './components/**/*.{ts,tsx}', './services/**/*.{ts,tsx}'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -2,7 +2,8 @@
 export interface Item {
   id: string;
   name: string;
-  persianName: string;
+  /** The word in each home language, e.g. `{ fa: 'سیب' }`. English is always `name`. */
+  translations: Translations;
   emoji: string;
   color: string;
 }
@@ -13,20 +14,43 @@ export interface Category {
   icon: string;
   color: string;
   items: Item[];
+  /** Set when the category was installed from a content pack. */
+  packId?: string;
 }
 
+/** The family's own language, shown on the back of every card. */
+export type HomeLang = 'fa' | 'ar' | 'tr' | 'es';
+
+export type Translations = Partial<Record<HomeLang, string>>;
+
+export type SpeechLang = 'en' | HomeLang;
+
+export type AgeBand = '2-4' | '5-7' | '8-10';
+
 export enum GameType {
   FLASHCARDS = 'Flashcards',
   QUIZ = 'Quiz',
   MEMORY = 'Memory',
   MATCHING = 'Matching',
   SPELLING = 'Spelling',
-  ODD_ONE_OUT = 'Odd One Out'
+  ODD_ONE_OUT = 'Odd One Out',
+  SAY_IT = 'Say It',
+  BEGINNING_SOUND = 'Beginning Sound'
 }
 
 export interface GameState {
-  view: 'main' | 'learning_detail' | 'game_types' | 'game_cats' | 'game_active' | 'alphabet';
+  view: 'main' | 'learning_detail' | 'game_types' | 'game_cats' | 'game_active' | 'alphabet' | 'persian_alphabet' | 'review' | 'profiles' | 'parent';
   selectedCategory: Category | null;
   selectedGame: GameType | null;
   score: number;
 }
+
+// AI Studio کلید را خودش مدیریت می‌کند و این شیء را به صفحه اضافه می‌کند
+declare global {
+  interface Window {
+    aistudio?: {
+      hasSelectedApiKey(): Promise<boolean>;
+      openSelectKey(): Promise<void>;
+    };
+  }
+}
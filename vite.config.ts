@@ -1,9 +1,24 @@
-
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // نسخه‌ی جدید فقط بعد از تأیید کاربر فعال می‌شود تا وسط بازی صفحه رفرش نشود
+      registerType: 'prompt',
+      manifest: false,
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,png,svg,woff2,json}'],
+        navigateFallback: 'index.html',
+      },
+    }),
+  ],
+  server: {
+    // درخواست‌های /api به `wrangler dev` می‌روند (npm run worker:dev)
+    proxy: { '/api': 'http://localhost:8787' },
+  },
   // Do not define process.env.API_KEY here as it prevents dynamic updates from the UI dialog
   build: {
     outDir: 'dist',
@@ -0,0 +1,242 @@
+import { DurableObject } from "cloudflare:workers";
+import { AIErrorKind, AIProvider, toAIError } from "../services/aiProvider";
+import { createGeminiProvider } from "../services/geminiService";
+import { isHomeLang, isSpeechLang } from "../services/languages";
+import { AgeBand, HomeLang } from "../types";
+
+export interface Env {
+  /** Set with `wrangler secret put GEMINI_API_KEY` (or `.dev.vars` for `wrangler dev`). */
+  GEMINI_API_KEY: string;
+  /** `LimitCounter` objects: one per client IP for the rate limits, one for the daily budget. */
+  LIMITS: DurableObjectNamespace<LimitCounter>;
+  ASSETS: Fetcher;
+  /** Requests one IP address may make per minute, whatever device ids it sends. */
+  IP_RATE_PER_MINUTE: string;
+  /** Tighter limit for one device id under its IP's limit. */
+  DEVICE_RATE_PER_MINUTE: string;
+  /** Cost units all devices together may spend per UTC day; see `ROUTES`. */
+  DAILY_BUDGET: string;
+}
+
+interface Route {
+  /** Budget units per uncached call; images are by far the most expensive. */
+  cost: number;
+  /** Seconds to keep an identical answer in the edge cache; 0 = never cache. */
+  cacheTtl: number;
+  /** Validates the body (throwing `RequestError`) before any budget is spent, then returns the call to make. */
+  prepare(body: any): (provider: AIProvider) => Promise<unknown>;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+const MAX_TEXT = 80;
+const MAX_AVOID = 200;
+// هم‌اندازه‌ی دسته‌های services/translations.ts
+const MAX_TRANSLATE = 40;
+// services/profiles.ts uses localStorage, so the bands are repeated here
+const AGE_BANDS: AgeBand[] = ['2-4', '5-7', '8-10'];
+
+/** Bad input from the browser; answered with 400 instead of being blamed on Gemini. */
+class RequestError extends Error {}
+
+/** A limit counter could not be reached (e.g. its Durable Object is overloaded); answered with 503 instead of crashing. */
+class CounterError extends Error {}
+
+const text = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_TEXT) {
+    throw new RequestError(`"${field}" must be a non-empty string of at most ${MAX_TEXT} characters`);
+  }
+  return value.trim();
+};
+
+const homeLang = (value: unknown): HomeLang => {
+  if (!isHomeLang(value)) throw new RequestError('"lang" must be a supported home language');
+  return value;
+};
+
+const ROUTES: Record<string, Route> = {
+  fact: {
+    cost: 1,
+    cacheTtl: 7 * DAY_SECONDS,
+    prepare: body => {
+      const [itemName, categoryName] = [text(body.itemName, 'itemName'), text(body.categoryName, 'categoryName')];
+      return async p => ({ text: await p.getFunFact(itemName, categoryName) });
+    },
+  },
+  expand: {
+    cost: 2,
+    // هر بار باید کلمات تازه بدهد، پس کش نمی‌شود
+    cacheTtl: 0,
+    prepare: body => {
+      const categoryName = text(body.categoryName, 'categoryName');
+      const avoid = Array.isArray(body.avoidNames) ? body.avoidNames.filter((n: unknown) => typeof n === 'string').slice(0, MAX_AVOID) : [];
+      const lang = homeLang(body.lang);
+      const ageBand = AGE_BANDS.find(band => band === body.ageBand);
+      return async p => ({ items: await p.expandItems(categoryName, avoid, lang, ageBand) });
+    },
+  },
+  translate: {
+    cost: 2,
+    cacheTtl: 30 * DAY_SECONDS,
+    prepare: body => {
+      if (!Array.isArray(body.words) || body.words.length === 0 || body.words.length > MAX_TRANSLATE) {
+        throw new RequestError(`"words" must be a list of 1 to ${MAX_TRANSLATE} words`);
+      }
+      const words = body.words.map((word: unknown) => text(word, 'words'));
+      const lang = homeLang(body.lang);
+      return async p => ({ translations: await p.translateWords(words, lang) });
+    },
+  },
+  speech: {
+    cost: 1,
+    cacheTtl: 30 * DAY_SECONDS,
+    prepare: body => {
+      const [phrase, lang] = [text(body.text, 'text'), isSpeechLang(body.lang) ? body.lang : 'en'] as const;
+      return async p => ({ audio: await p.generateSpeech(phrase, lang) });
+    },
+  },
+  image: {
+    cost: 10,
+    cacheTtl: 30 * DAY_SECONDS,
+    prepare: body => {
+      const [itemName, categoryName] = [text(body.itemName, 'itemName'), text(body.categoryName, 'categoryName')];
+      return async p => ({ image: await p.generateImage(itemName, categoryName) });
+    },
+  },
+};
+
+const STATUS_BY_KIND: Record<AIErrorKind, number> = {
+  auth: 502,
+  quota: 429,
+  safety: 422,
+  network: 502,
+  timeout: 504,
+  offline: 503,
+  unknown: 502,
+};
+
+const json = (data: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+const errorResponse = (kind: AIErrorKind, message: string, status = STATUS_BY_KIND[kind]) => json({ error: { kind, message } }, status);
+const badRequest = (message: string) => errorResponse('unknown', message, 400);
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+interface RateWindow {
+  minute: number;
+  total: number;
+  devices: Record<string, number>;
+}
+
+interface BudgetWindow {
+  day: string;
+  used: number;
+}
+
+export type RateVerdict = 'ok' | 'ip' | 'device';
+
+/**
+ * Fixed-window counters. A Durable Object handles one call at a time and its
+ * storage writes are ordered, so concurrent requests never lose a count the
+ * way a read-then-write on KV does. Each object keeps one record that is
+ * overwritten when the window rolls over, so storage never grows.
+ */
+export class LimitCounter extends DurableObject<Env> {
+  /** Counts one request from `device` against its IP (this object) and against the device itself. */
+  async takeRate(minute: number, device: string, ipLimit: number, deviceLimit: number): Promise<RateVerdict> {
+    const saved = await this.ctx.storage.get<RateWindow>('rate');
+    const current: RateWindow = saved?.minute === minute ? saved : { minute, total: 0, devices: {} };
+    // اول سقف IP؛ شناسه‌ی دستگاه را خود مرورگر می‌فرستد و عوض کردنش از این سقف رد نمی‌شود
+    if (current.total + 1 > ipLimit) return 'ip';
+    const used = current.devices[device] ?? 0;
+    if (used + 1 > deviceLimit) return 'device';
+    await this.ctx.storage.put<RateWindow>('rate', { minute, total: current.total + 1, devices: { ...current.devices, [device]: used + 1 } });
+    return 'ok';
+  }
+
+  async takeBudget(day: string, cost: number, limit: number): Promise<boolean> {
+    const saved = await this.ctx.storage.get<BudgetWindow>('budget');
+    const used = saved?.day === day ? saved.used : 0;
+    if (used + cost > limit) return false;
+    await this.ctx.storage.put<BudgetWindow>('budget', { day, used: used + cost });
+    return true;
+  }
+}
+
+/** Runs a call on a `LimitCounter`, turning a failure to reach it into `CounterError`. */
+const counterCall = async <T>(name: string, call: () => Promise<T>): Promise<T> => {
+  try {
+    return await call();
+  } catch (e) {
+    throw new CounterError(`Limit counter ${name} failed: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+const handleApi = async (request: Request, env: Env, ctx: ExecutionContext, name: string): Promise<Response> => {
+  const route = ROUTES[name];
+  if (!route) return badRequest(`Unknown endpoint /api/${name}`);
+  if (request.method !== 'POST') return badRequest("Use POST");
+  if (!env.GEMINI_API_KEY) return errorResponse('auth', "The server has no Gemini key configured");
+
+  let body: any;
+  let run: (provider: AIProvider) => Promise<unknown>;
+  try {
+    body = await request.json();
+    run = route.prepare(body ?? {});
+  } catch (e) {
+    return badRequest(e instanceof RequestError ? e.message : "Body must be JSON");
+  }
+
+  // پاسخ‌های یکسان از کش لبه برمی‌گردند و از بودجه کم نمی‌کنند
+  const cache = caches.default;
+  const cacheKey = new Request(`https://cache.kids-joy/${name}/${await sha256(JSON.stringify(body))}`);
+  if (route.cacheTtl > 0) {
+    const hit = await cache.match(cacheKey);
+    if (hit) return hit;
+  }
+
+  const ip = request.headers.get('CF-Connecting-IP') || 'unknown';
+  const device = (request.headers.get('X-Device-Id') || 'anonymous').slice(0, 64);
+  const minute = Math.floor(Date.now() / 60000);
+  const day = new Date().toISOString().slice(0, 10);
+  try {
+    const ipCounter = env.LIMITS.get(env.LIMITS.idFromName(`ip:${ip}`));
+    const verdict = await counterCall(`ip:${ip}`, () =>
+      ipCounter.takeRate(minute, device, Number(env.IP_RATE_PER_MINUTE) || 60, Number(env.DEVICE_RATE_PER_MINUTE) || 20));
+    if (verdict !== 'ok') {
+      return errorResponse('quota', verdict === 'ip' ? "Too many requests from this network, slow down a little" : "Too many requests from this device, slow down a little");
+    }
+    const budget = env.LIMITS.get(env.LIMITS.idFromName('budget'));
+    if (!(await counterCall('budget', () => budget.takeBudget(day, route.cost, Number(env.DAILY_BUDGET) || 500)))) {
+      return errorResponse('quota', "Today's magic budget is used up, come back tomorrow");
+    }
+  } catch (e) {
+    if (!(e instanceof CounterError)) throw e;
+    console.error(e.message);
+    return errorResponse('quota', "The magic is busy right now, try again in a minute", 503);
+  }
+
+  try {
+    const result = await run(createGeminiProvider(() => env.GEMINI_API_KEY));
+    const response = json(result, 200, route.cacheTtl > 0 ? { 'Cache-Control': `public, max-age=${route.cacheTtl}` } : {});
+    if (route.cacheTtl > 0) ctx.waitUntil(cache.put(cacheKey, response.clone()));
+    return response;
+  } catch (e) {
+    const error = toAIError(e);
+    console.error(`/api/${name} failed`, error.kind, error.message);
+    // جزئیات خطای Gemini (مثلاً درباره‌ی کلید) به مرورگر نمی‌رود
+    return errorResponse(error.kind, `Gemini ${error.kind} error`);
+  }
+};
+
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    const match = pathname.match(/^\/api\/([a-z]+)\/?$/);
+    if (match) return handleApi(request, env, ctx, match[1]);
+    return env.ASSETS.fetch(request);
+  },
+} satisfies ExportedHandler<Env>;